@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { authService } from "@/lib/auth";
+import { SessionContext, type Session } from "@/hooks/use-session";
+import { toast } from "@/hooks/use-toast";
+import type { UserData } from "@/types/chat";
+
+interface AuthProviderProps {
+  children: React.ReactNode;
+}
+
+const DEFAULT_ROLE = "student";
+// Refresh this long before the access token expires.
+const REFRESH_LEAD_MS = 60 * 1000;
+// setTimeout overflows past ~24.8 days.
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+const resolveUser = (token: string | undefined, profile: Partial<UserData> = {}): UserData | null => {
+  const stored = authService.getStoredProfile();
+  const merged = { ...profile, ...(token ? authService.profileFromToken(token) : {}) };
+  const username = merged.username ?? stored?.username;
+  if (!username) return null;
+
+  // Details kept locally only carry over for the same account.
+  const previous = stored?.username === username ? stored : {};
+  return {
+    username,
+    role: merged.role ?? previous.role ?? DEFAULT_ROLE,
+    ...(merged.timeZone ?? previous.timeZone ? { timeZone: merged.timeZone ?? previous.timeZone } : {}),
+    ...(merged.memberships ?? previous.memberships ? { memberships: merged.memberships ?? previous.memberships } : {}),
+  };
+};
+
+// An expired (or already dropped) access token still restores the session while a refresh
+// token is around; the refresh effect below then renews it or signs the user out.
+const loadInitialSession = () => {
+  const token = authService.getToken();
+  const usable = !!token && !authService.isTokenExpired(token);
+  const user = usable || authService.getRefreshToken() ? resolveUser(token) : null;
+  if (!user) {
+    authService.removeToken();
+    authService.removeStoredProfile();
+    return { token: null, user: null };
+  }
+  authService.setStoredProfile(user);
+  return { token: usable ? token : null, user };
+};
+
+const AuthProvider = ({ children }: AuthProviderProps) => {
+  const [state, setState] = useState<{ token: string | null; user: UserData | null }>(loadInitialSession);
+
+  useEffect(() => authService.subscribe((event) => {
+    if (event.type === "refreshed") {
+      setState((current) => (current.user ? { ...current, token: event.token } : current));
+      return;
+    }
+    setState({ token: null, user: null });
+    toast({
+      title: "Session expired",
+      description: "Please sign in again to continue.",
+      variant: "destructive",
+    });
+  }), []);
+
+  const signedIn = !!state.user;
+  useEffect(() => {
+    if (!signedIn) return;
+
+    // A missing token means it already lapsed, so refresh straight away.
+    const expiry = state.token ? authService.getTokenExpiry(state.token) : new Date(0);
+    if (!expiry) return;
+
+    let timer = setTimeout(async () => {
+      if (await authService.refresh()) return;
+
+      const remaining = expiry.getTime() - Date.now();
+      if (remaining <= 0) {
+        authService.expireSession();
+      } else {
+        timer = setTimeout(() => authService.expireSession(), Math.min(remaining, MAX_TIMER_MS));
+      }
+    }, Math.min(Math.max(expiry.getTime() - Date.now() - REFRESH_LEAD_MS, 0), MAX_TIMER_MS));
+
+    return () => clearTimeout(timer);
+  }, [signedIn, state.token]);
+
+  const login = useCallback((token: string, profile?: Partial<UserData>, refreshToken?: string) => {
+    const user = resolveUser(token, profile);
+    if (!user) {
+      throw new Error("Could not determine the signed-in user");
+    }
+    authService.setToken(token);
+    if (refreshToken) authService.setRefreshToken(refreshToken);
+    authService.setStoredProfile(user);
+    setState({ token, user });
+    return user;
+  }, []);
+
+  const logout = useCallback(() => {
+    authService.removeToken();
+    authService.removeStoredProfile();
+    setState({ token: null, user: null });
+  }, []);
+
+  const updateUser = useCallback((changes: Partial<UserData>) => {
+    setState((current) => {
+      if (!current.user) return current;
+      const user = { ...current.user, ...changes };
+      authService.setStoredProfile(user);
+      return { ...current, user };
+    });
+  }, []);
+
+  const session = useMemo<Session>(() => ({
+    status: state.user ? "authenticated" : "unauthenticated",
+    token: state.token,
+    user: state.user,
+    login,
+    logout,
+    updateUser,
+  }), [state, login, logout, updateUser]);
+
+  return <SessionContext.Provider value={session}>{children}</SessionContext.Provider>;
+};
+
+export default AuthProvider;
@@ -1,13 +1,30 @@
-import { Navigate } from "react-router-dom";
-import { authService } from "@/lib/auth";
+import { Navigate, useLocation } from "react-router-dom";
+import { useSession } from "@/hooks/use-session";
+import { hasPermission, type Permission } from "@/lib/permissions";
+import Forbidden from "@/pages/Forbidden";
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  // When set, only users with one of these roles may see the route.
+  roles?: string[];
+  // When set, the user's role must grant every one of these.
+  permissions?: Permission[];
 }
 
-const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
-  if (!authService.isAuthenticated()) {
-    return <Navigate to="/login" replace />;
+const ProtectedRoute = ({ children, roles, permissions }: ProtectedRouteProps) => {
+  const { status, user } = useSession();
+  const location = useLocation();
+
+  if (status !== "authenticated") {
+    const returnTo = location.pathname + location.search + location.hash;
+    const search = location.pathname === "/" ? "" : `?returnTo=${encodeURIComponent(returnTo)}`;
+    return <Navigate to={`/login${search}`} replace />;
+  }
+
+  const roleAllowed = !roles || roles.includes(user.role);
+  const permissionsAllowed = !permissions || permissions.every((permission) => hasPermission(user.role, permission));
+  if (!roleAllowed || !permissionsAllowed) {
+    return <Forbidden />;
   }
 
   return <>{children}</>;
@@ -0,0 +1,67 @@
+import { FileText, FileType, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { formatFileSize, getAttachmentUrl } from "@/lib/attachments";
+import type { Attachment } from "@/types/chat";
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  // Shown above the composer with a remove button; otherwise rendered in a message.
+  onRemove?: (id: string) => void;
+}
+
+const AttachmentList = ({ attachments, onRemove }: AttachmentListProps) => (
+  <div className="flex flex-wrap gap-2">
+    {attachments.map((attachment) => {
+      const url = getAttachmentUrl(attachment);
+      const Icon = attachment.kind === "pdf" ? FileType : FileText;
+      const fileCard = (
+        <>
+          <Icon className="h-5 w-5 flex-shrink-0 text-primary" />
+          <div className="min-w-0">
+            <div className="text-xs font-medium truncate max-w-[160px]">{attachment.name}</div>
+            <div className="text-xs text-muted-foreground">{formatFileSize(attachment.size)}</div>
+          </div>
+        </>
+      );
+      return (
+        <div key={attachment.id} className="relative">
+          {!url ? (
+            // Data that isn't a safe URL is never linked or displayed, only named.
+            <div className="flex items-center space-x-2 rounded-lg border border-border bg-background/80 px-3 py-2 text-foreground">
+              {fileCard}
+            </div>
+          ) : attachment.kind === "image" ? (
+            <a href={url} download={attachment.name} title={attachment.name}>
+              <img
+                src={url}
+                alt={attachment.name}
+                className={`rounded-lg border border-border object-cover ${onRemove ? "h-16 w-16" : "max-h-48 max-w-full"}`}
+              />
+            </a>
+          ) : (
+            <a
+              href={url}
+              download={attachment.name}
+              className="flex items-center space-x-2 rounded-lg border border-border bg-background/80 px-3 py-2 text-foreground hover:bg-muted"
+            >
+              {fileCard}
+            </a>
+          )}
+          {onRemove && (
+            <Button
+              variant="secondary"
+              size="sm"
+              className="absolute -top-2 -right-2 h-5 w-5 rounded-full p-0 shadow"
+              onClick={() => onRemove(attachment.id)}
+              aria-label={`Remove ${attachment.name}`}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default AttachmentList;
@@ -0,0 +1,39 @@
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface BranchSwitcherProps {
+  index: number;
+  count: number;
+  onSelect: (index: number) => void;
+  disabled?: boolean;
+}
+
+const BranchSwitcher = ({ index, count, onSelect, disabled }: BranchSwitcherProps) => (
+  <div className="flex items-center text-xs text-muted-foreground">
+    <Button
+      variant="ghost"
+      size="sm"
+      className="h-6 w-6 p-0"
+      onClick={() => onSelect(index - 1)}
+      disabled={disabled || index === 0}
+      aria-label="Previous version"
+    >
+      <ChevronLeft className="h-3 w-3" />
+    </Button>
+    <span className="tabular-nums px-1">
+      {index + 1}/{count}
+    </span>
+    <Button
+      variant="ghost"
+      size="sm"
+      className="h-6 w-6 p-0"
+      onClick={() => onSelect(index + 1)}
+      disabled={disabled || index === count - 1}
+      aria-label="Next version"
+    >
+      <ChevronRight className="h-3 w-3" />
+    </Button>
+  </div>
+);
+
+export default BranchSwitcher;
@@ -0,0 +1,74 @@
+import { FolderPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ALL_FOLDERS, UNFILED, getTagColor, type ChatFolder, type ChatTag } from "@/lib/organizer";
+
+interface ChatFiltersProps {
+  folders: ChatFolder[];
+  tags: ChatTag[];
+  // ALL_FOLDERS, UNFILED or a folder id.
+  folderFilter: string;
+  onFolderFilterChange: (folderFilter: string) => void;
+  // Chats with any of these tags are shown; none selected shows every chat.
+  tagFilter: string[];
+  onTagFilterChange: (tagFilter: string[]) => void;
+  // Only given where the user can add folders, i.e. outside a space.
+  onCreateFolder?: () => void;
+}
+
+const ChatFilters = ({ folders, tags, folderFilter, onFolderFilterChange, tagFilter, onTagFilterChange, onCreateFolder }: ChatFiltersProps) => {
+  const toggleTag = (tagId: string) =>
+    onTagFilterChange(tagFilter.includes(tagId) ? tagFilter.filter((id) => id !== tagId) : [...tagFilter, tagId]);
+
+  return (
+    <div className="mt-3 space-y-2">
+      <div className="flex items-center space-x-2">
+        <Select value={folderFilter} onValueChange={onFolderFilterChange}>
+          <SelectTrigger className="h-8 flex-1 bg-background text-xs" aria-label="Filter by folder">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_FOLDERS}>All chats</SelectItem>
+            <SelectItem value={UNFILED}>Not in a folder</SelectItem>
+            {folders.map((folder) => (
+              <SelectItem key={folder.id} value={folder.id}>
+                {folder.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {onCreateFolder && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onCreateFolder}
+            className="h-8 bg-background hover:bg-muted border-border text-muted-foreground"
+            aria-label="New folder"
+            title="New folder"
+          >
+            <FolderPlus className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1" aria-label="Filter by tag">
+          {tags.map((tag) => (
+            <button
+              key={tag.id}
+              type="button"
+              onClick={() => toggleTag(tag.id)}
+              aria-pressed={tagFilter.includes(tag.id)}
+              className={`rounded px-2 py-1 text-xs font-medium leading-none transition-opacity ${getTagColor(tag.color).badge} ${
+                tagFilter.includes(tag.id) ? "ring-1 ring-current" : tagFilter.length > 0 ? "opacity-50 hover:opacity-100" : ""
+              }`}
+            >
+              {tag.name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChatFilters;
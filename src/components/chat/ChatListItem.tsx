@@ -0,0 +1,209 @@
+import { useEffect, useRef, useState } from "react";
+import { Archive, ArchiveRestore, FileJson, FileText, Folder, FolderMinus, MoreHorizontal, Pencil, Pin, PinOff, Printer, Share2, Tag, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { CHAT_DRAG_TYPE, getTagColor, type ChatFolder, type ChatTag } from "@/lib/organizer";
+import type { TranscriptFormat } from "@/lib/transcript";
+import type { ChatHistory } from "@/types/chat";
+
+interface ChatListItemProps {
+  chat: ChatHistory;
+  active: boolean;
+  onSelect: () => void;
+  onRename: (title: string) => void;
+  onTogglePin: () => void;
+  onToggleArchive: () => void;
+  onExport: (format: TranscriptFormat | "print") => void;
+  onShare: () => void;
+  onDelete: () => void;
+  // Folders the chat can be filed in, offered as "Move to" targets.
+  folders?: ChatFolder[];
+  onMove?: (folderId: string | undefined) => void;
+  // The chat's tags, already resolved from its tag ids.
+  tags?: ChatTag[];
+  onEditTags?: () => void;
+}
+
+const ChatListItem = ({
+  chat,
+  active,
+  onSelect,
+  onRename,
+  onTogglePin,
+  onToggleArchive,
+  onExport,
+  onShare,
+  onDelete,
+  folders = [],
+  onMove,
+  tags = [],
+  onEditTags,
+}: ChatListItemProps) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftTitle, setDraftTitle] = useState(chat.title);
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Enter and Escape end renaming themselves; the blur that follows must not commit again.
+  const renameDone = useRef(false);
+
+  useEffect(() => {
+    if (isRenaming) inputRef.current?.select();
+  }, [isRenaming]);
+
+  const startRenaming = () => {
+    setDraftTitle(chat.title);
+    renameDone.current = false;
+    setIsRenaming(true);
+  };
+
+  const commitRename = () => {
+    if (renameDone.current) return;
+    renameDone.current = true;
+    const title = draftTitle.trim();
+    if (title && title !== chat.title) onRename(title);
+    setIsRenaming(false);
+  };
+
+  const handleRenameKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      commitRename();
+    } else if (e.key === "Escape") {
+      renameDone.current = true;
+      setIsRenaming(false);
+    }
+  };
+
+  // The same actions back both the right-click menu and the "..." button, one group per section.
+  // Labels can repeat (folders may share a name), so items are keyed by `id`.
+  const actionGroups = [
+    [
+      { id: "rename", label: "Rename", icon: Pencil, onSelect: startRenaming },
+      { id: "pin", label: chat.pinned ? "Unpin" : "Pin to top", icon: chat.pinned ? PinOff : Pin, onSelect: onTogglePin },
+      { id: "archive", label: chat.archived ? "Unarchive" : "Archive", icon: chat.archived ? ArchiveRestore : Archive, onSelect: onToggleArchive },
+      ...(onEditTags ? [{ id: "tags", label: "Tags...", icon: Tag, onSelect: onEditTags }] : []),
+    ],
+    [
+      { id: "share", label: "Share link", icon: Share2, onSelect: onShare },
+      { id: "export-markdown", label: "Export as Markdown", icon: FileText, onSelect: () => onExport("markdown") },
+      { id: "export-json", label: "Export as JSON", icon: FileJson, onSelect: () => onExport("json") },
+      { id: "print", label: "Print / PDF", icon: Printer, onSelect: () => onExport("print") },
+    ],
+    [
+      ...folders
+        .filter((folder) => folder.id !== chat.folderId)
+        .map((folder) => ({ id: `move-${folder.id}`, label: `Move to ${folder.name}`, icon: Folder, onSelect: () => onMove?.(folder.id) })),
+      ...(chat.folderId ? [{ id: "unfile", label: "Remove from folder", icon: FolderMinus, onSelect: () => onMove?.(undefined) }] : []),
+    ],
+    [{ id: "delete", label: "Delete", icon: Trash2, onSelect: onDelete, destructive: true }],
+  ].filter((group) => group.length > 0);
+
+  if (isRenaming) {
+    return (
+      <div className="p-2">
+        <Input
+          ref={inputRef}
+          value={draftTitle}
+          onChange={(e) => setDraftTitle(e.target.value)}
+          onKeyDown={handleRenameKeyDown}
+          onBlur={commitRename}
+          aria-label="Chat title"
+          className="h-8 text-sm"
+        />
+      </div>
+    );
+  }
+
+  return (
+    <ContextMenu>
+      <ContextMenuTrigger asChild>
+        <div
+          className={`group relative flex items-center rounded-lg transition-all duration-200 ${
+            active
+              ? "bg-secondary text-secondary-foreground border border-border/50"
+              : "hover:bg-muted/50 text-muted-foreground hover:text-foreground"
+          }`}
+          draggable
+          onDragStart={(e) => {
+            e.dataTransfer.setData(CHAT_DRAG_TYPE, chat.id);
+            e.dataTransfer.effectAllowed = "move";
+          }}
+        >
+          <Button
+            variant="ghost"
+            className="flex-1 min-w-0 justify-start text-left p-3 h-auto rounded-lg hover:bg-transparent"
+            onClick={onSelect}
+          >
+            <div className="truncate w-full">
+              <div className="font-medium truncate text-sm mb-1 flex items-center">
+                {chat.pinned && <Pin className="h-3 w-3 mr-1 flex-shrink-0 text-primary" />}
+                <span className="truncate">{chat.title}</span>
+              </div>
+              <div className="text-xs opacity-70">
+                {chat.createdAt.toLocaleDateString()}
+              </div>
+              {tags.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {tags.map((tag) => (
+                    <span key={tag.id} className={`rounded px-1.5 py-0.5 text-[10px] font-medium leading-none ${getTagColor(tag.color).badge}`}>
+                      {tag.name}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="mr-1 h-7 w-7 p-0 opacity-0 group-hover:opacity-100 focus:opacity-100 data-[state=open]:opacity-100"
+                aria-label="Chat actions"
+              >
+                <MoreHorizontal className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {actionGroups.map((group, index) => [
+                index > 0 && <DropdownMenuSeparator key={`separator-${index}`} />,
+                ...group.map(({ id, label, icon: Icon, onSelect: handle, destructive }) => (
+                  <DropdownMenuItem key={id} onSelect={handle} className={destructive ? "text-destructive focus:text-destructive" : ""}>
+                    <Icon className="h-4 w-4 mr-2" />
+                    {label}
+                  </DropdownMenuItem>
+                )),
+              ])}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </ContextMenuTrigger>
+      <ContextMenuContent>
+        {actionGroups.map((group, index) => [
+          index > 0 && <ContextMenuSeparator key={`separator-${index}`} />,
+          ...group.map(({ id, label, icon: Icon, onSelect: handle, destructive }) => (
+            <ContextMenuItem key={id} onSelect={handle} className={destructive ? "text-destructive focus:text-destructive" : ""}>
+              <Icon className="h-4 w-4 mr-2" />
+              {label}
+            </ContextMenuItem>
+          )),
+        ])}
+      </ContextMenuContent>
+    </ContextMenu>
+  );
+};
+
+export default ChatListItem;
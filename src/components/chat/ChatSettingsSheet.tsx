@@ -0,0 +1,154 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Sheet, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Slider } from "@/components/ui/slider";
+import { Textarea } from "@/components/ui/textarea";
+import { MAX_TOKENS_LIMIT } from "@/lib/api";
+import { getChatModels } from "@/lib/models";
+import type { ChatSettings } from "@/types/chat";
+
+// Select items can't have an empty value, so "server default" gets a placeholder id.
+const DEFAULT_MODEL = "__default";
+const DEFAULT_TEMPERATURE = 1;
+
+interface ChatSettingsSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  settings: ChatSettings;
+  onSave: (settings: ChatSettings) => void;
+  // The space's prompt, used while this chat doesn't set its own.
+  defaultSystemPrompt?: string;
+}
+
+const ChatSettingsSheet = ({ open, onOpenChange, settings, onSave, defaultSystemPrompt }: ChatSettingsSheetProps) => {
+  const [systemPrompt, setSystemPrompt] = useState("");
+  const [model, setModel] = useState(DEFAULT_MODEL);
+  const [temperature, setTemperature] = useState<number | undefined>();
+  const [maxTokens, setMaxTokens] = useState("");
+
+  // Start from the chat's saved settings every time the sheet opens.
+  useEffect(() => {
+    if (!open) return;
+    setSystemPrompt(settings.systemPrompt ?? "");
+    setModel(settings.model ?? DEFAULT_MODEL);
+    setTemperature(settings.temperature);
+    setMaxTokens(settings.maxTokens?.toString() ?? "");
+  }, [open, settings]);
+
+  const parsedMaxTokens = maxTokens.trim() ? Number(maxTokens) : undefined;
+  const maxTokensInvalid =
+    parsedMaxTokens !== undefined &&
+    (!Number.isInteger(parsedMaxTokens) || parsedMaxTokens < 1 || parsedMaxTokens > MAX_TOKENS_LIMIT);
+
+  const handleSave = () => {
+    if (maxTokensInvalid) return;
+    onSave({
+      systemPrompt: systemPrompt.trim() || undefined,
+      model: model === DEFAULT_MODEL ? undefined : model,
+      temperature,
+      maxTokens: parsedMaxTokens,
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex flex-col overflow-y-auto sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>Chat settings</SheetTitle>
+          <SheetDescription>Sent with every message in this chat. Empty fields use the server's defaults.</SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 space-y-6 py-6">
+          <div className="space-y-2">
+            <Label htmlFor="system-prompt">System prompt</Label>
+            <Textarea
+              id="system-prompt"
+              value={systemPrompt}
+              onChange={(e) => setSystemPrompt(e.target.value)}
+              placeholder={
+                defaultSystemPrompt ?? "e.g. You are a TA for CS101. Guide students to the answer instead of giving it away."
+              }
+              className="min-h-[140px]"
+            />
+            {defaultSystemPrompt && (
+              <p className="text-xs text-muted-foreground">Leave empty to use the space's default prompt shown above.</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Model</Label>
+            <Select value={model} onValueChange={setModel}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_MODEL}>Server default</SelectItem>
+                {getChatModels().map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.label}
+                    {option.description && <span className="text-muted-foreground"> · {option.description}</span>}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Temperature</Label>
+              <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+                <span className="tabular-nums">{temperature === undefined ? "Default" : temperature.toFixed(1)}</span>
+                {temperature !== undefined && (
+                  <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setTemperature(undefined)}>
+                    Reset
+                  </Button>
+                )}
+              </div>
+            </div>
+            <Slider
+              min={0}
+              max={2}
+              step={0.1}
+              value={[temperature ?? DEFAULT_TEMPERATURE]}
+              onValueChange={([value]) => setTemperature(value)}
+              aria-label="Temperature"
+            />
+            <p className="text-xs text-muted-foreground">Lower is more focused and repeatable, higher is more varied.</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="max-tokens">Max tokens</Label>
+            <Input
+              id="max-tokens"
+              type="number"
+              inputMode="numeric"
+              min={1}
+              max={MAX_TOKENS_LIMIT}
+              value={maxTokens}
+              onChange={(e) => setMaxTokens(e.target.value)}
+              placeholder="Default"
+            />
+            {maxTokensInvalid && (
+              <p className="text-xs text-destructive">Enter a whole number between 1 and {MAX_TOKENS_LIMIT}.</p>
+            )}
+          </div>
+        </div>
+
+        <SheetFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={maxTokensInvalid}>
+            Save
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default ChatSettingsSheet;
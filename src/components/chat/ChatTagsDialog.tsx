@@ -0,0 +1,104 @@
+import { useEffect, useState } from "react";
+import { Check, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { TAG_COLOR_NAMES, getTagColor, type ChatTag, type TagColor } from "@/lib/organizer";
+import type { ChatHistory } from "@/types/chat";
+
+interface ChatTagsDialogProps {
+  // The chat being tagged; the dialog is open while this is set.
+  chat: ChatHistory | null;
+  tags: ChatTag[];
+  onOpenChange: (open: boolean) => void;
+  onToggle: (tagId: string) => void;
+  // New tags are applied to the chat straight away.
+  onCreate: (name: string, color: TagColor) => void;
+  onDelete: (tagId: string) => void;
+}
+
+const ChatTagsDialog = ({ chat, tags, onOpenChange, onToggle, onCreate, onDelete }: ChatTagsDialogProps) => {
+  const [name, setName] = useState("");
+  const [color, setColor] = useState<TagColor>("blue");
+
+  useEffect(() => {
+    if (chat) setName("");
+  }, [chat]);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    onCreate(trimmed, color);
+    setName("");
+  };
+
+  const selected = new Set(chat?.tagIds ?? []);
+
+  return (
+    <Dialog open={!!chat} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Tags</DialogTitle>
+          <DialogDescription className="truncate">{chat?.title}</DialogDescription>
+        </DialogHeader>
+        {tags.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No tags yet. Create one below.</p>
+        ) : (
+          <div className="space-y-1 max-h-60 overflow-y-auto">
+            {tags.map((tag) => (
+              <div key={tag.id} className="group flex items-center rounded-md hover:bg-muted/50">
+                <button
+                  type="button"
+                  className="flex flex-1 min-w-0 items-center px-2 py-1.5 text-sm text-left"
+                  onClick={() => onToggle(tag.id)}
+                  aria-pressed={selected.has(tag.id)}
+                >
+                  <span className={`h-3 w-3 mr-2 rounded-full flex-shrink-0 ${getTagColor(tag.color).swatch}`} />
+                  <span className="truncate flex-1">{tag.name}</span>
+                  {selected.has(tag.id) && <Check className="h-4 w-4 ml-2 text-primary" />}
+                </button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0 opacity-0 group-hover:opacity-100 focus:opacity-100 text-muted-foreground hover:text-destructive"
+                  onClick={() => onDelete(tag.id)}
+                  aria-label={`Delete tag ${tag.name}`}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+        <form className="space-y-2 border-t border-border pt-4" onSubmit={handleCreate}>
+          <Label htmlFor="new-tag-name">New tag</Label>
+          <div className="flex space-x-2">
+            <Input id="new-tag-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Exam prep" maxLength={32} />
+            <Button type="submit" size="sm" className="h-10" disabled={!name.trim()} aria-label="Create tag">
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Tag color">
+            {TAG_COLOR_NAMES.map((option) => (
+              <button
+                key={option}
+                type="button"
+                role="radio"
+                aria-checked={color === option}
+                aria-label={option}
+                onClick={() => setColor(option)}
+                className={`h-5 w-5 rounded-full ${getTagColor(option).swatch} ${
+                  color === option ? "ring-2 ring-offset-2 ring-offset-background ring-ring" : ""
+                }`}
+              />
+            ))}
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ChatTagsDialog;
@@ -0,0 +1,56 @@
+import { useRef, useState } from "react";
+import { Check, Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+
+interface CodeBlockProps {
+  children: React.ReactNode;
+}
+
+// Language comes from the `language-*` class highlight.js leaves on the inner <code>.
+const getLanguage = (children: React.ReactNode) => {
+  const child = Array.isArray(children) ? children[0] : children;
+  const className: string = (child as React.ReactElement<{ className?: string }>)?.props?.className ?? "";
+  return className.match(/language-([\w-]+)/)?.[1];
+};
+
+const CodeBlock = ({ children }: CodeBlockProps) => {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+  const { toast } = useToast();
+  const language = getLanguage(children);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(preRef.current?.textContent ?? "");
+    } catch {
+      // Blocked without permission or outside a secure context.
+      toast({ title: "Couldn't copy the code", variant: "destructive" });
+      return;
+    }
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="not-prose my-3 rounded-lg border border-border overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-1 bg-muted/60 border-b border-border">
+        <span className="text-xs text-muted-foreground font-mono">{language ?? "code"}</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleCopy}
+          className="h-7 px-2 text-xs text-muted-foreground hover:text-foreground"
+        >
+          {copied ? <Check className="h-3 w-3 mr-1" /> : <Copy className="h-3 w-3 mr-1" />}
+          {copied ? "Copied" : "Copy"}
+        </Button>
+      </div>
+      <pre ref={preRef} className="overflow-x-auto text-sm [&>code]:block [&>code]:p-3">
+        {children}
+      </pre>
+    </div>
+  );
+};
+
+export default CodeBlock;
@@ -0,0 +1,156 @@
+import { useLayoutEffect, useRef, useState } from "react";
+import { Textarea } from "@/components/ui/textarea";
+import { Command, CommandGroup, CommandItem, CommandList } from "@/components/ui/command";
+import { getMatchingCommands, parseSlashCommand, type SlashCommand, type SlashCommandName } from "@/lib/slash-commands";
+
+const MAX_HEIGHT_PX = 200;
+
+interface ComposerProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  onCommand: (name: SlashCommandName, argument: string) => void;
+  // Earlier messages, oldest first, recalled with the Up arrow.
+  history: string[];
+  placeholder?: string;
+  disabled?: boolean;
+  onPaste?: (e: React.ClipboardEvent) => void;
+}
+
+const Composer = ({ value, onChange, onSubmit, onCommand, history, placeholder, disabled, onPaste }: ComposerProps) => {
+  const textarea = useRef<HTMLTextAreaElement>(null);
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState("");
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [menuDismissed, setMenuDismissed] = useState(false);
+
+  const matchingCommands = getMatchingCommands(value);
+  const menuOpen = matchingCommands.length > 0 && !menuDismissed;
+  const selectedCommand = matchingCommands[Math.min(selectedIndex, matchingCommands.length - 1)];
+
+  // Grow with the text up to a limit, then scroll.
+  useLayoutEffect(() => {
+    const element = textarea.current;
+    if (!element) return;
+    element.style.height = "auto";
+    element.style.height = `${Math.min(element.scrollHeight, MAX_HEIGHT_PX)}px`;
+  }, [value]);
+
+  const handleChange = (next: string) => {
+    onChange(next);
+    setHistoryIndex(null);
+    setMenuDismissed(false);
+    setSelectedIndex(0);
+  };
+
+  const chooseCommand = (command: SlashCommand) => {
+    if (command.argumentHint) {
+      handleChange(`/${command.name} `);
+      textarea.current?.focus();
+    } else {
+      handleChange("");
+      onCommand(command.name, "");
+    }
+  };
+
+  const submit = () => {
+    const parsed = parseSlashCommand(value);
+    if (parsed) {
+      handleChange("");
+      onCommand(parsed.command.name, parsed.argument);
+    } else {
+      setHistoryIndex(null);
+      onSubmit();
+    }
+  };
+
+  const recall = (index: number | null) => {
+    setHistoryIndex(index);
+    onChange(index === null ? draft : history[index]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (menuOpen) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setSelectedIndex((matchingCommands.indexOf(selectedCommand) + step + matchingCommands.length) % matchingCommands.length);
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        chooseCommand(selectedCommand);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setMenuDismissed(true);
+        return;
+      }
+    }
+
+    if (e.key === "Enter" && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      submit();
+      return;
+    }
+
+    // Up on the first line walks back through earlier messages, Down on the last line forward.
+    const { selectionStart, selectionEnd } = e.currentTarget;
+    const caretOnFirstLine = selectionStart === selectionEnd && !value.slice(0, selectionStart).includes("\n");
+    const caretOnLastLine = selectionStart === selectionEnd && !value.slice(selectionEnd).includes("\n");
+    if (e.key === "ArrowUp" && caretOnFirstLine && history.length > 0 && historyIndex !== 0) {
+      e.preventDefault();
+      if (historyIndex === null) setDraft(value);
+      recall(historyIndex === null ? history.length - 1 : historyIndex - 1);
+    } else if (e.key === "ArrowDown" && caretOnLastLine && historyIndex !== null) {
+      e.preventDefault();
+      recall(historyIndex === history.length - 1 ? null : historyIndex + 1);
+    }
+  };
+
+  return (
+    <div className="relative flex-1">
+      {menuOpen && (
+        <Command
+          shouldFilter={false}
+          value={selectedCommand.name}
+          onValueChange={(name) => setSelectedIndex(matchingCommands.findIndex((command) => command.name === name))}
+          className="absolute bottom-full left-0 mb-2 h-auto w-full max-w-md rounded-xl border border-border shadow-md"
+        >
+          <CommandList>
+            <CommandGroup heading="Commands">
+              {matchingCommands.map((command) => (
+                <CommandItem
+                  key={command.name}
+                  value={command.name}
+                  onSelect={() => chooseCommand(command)}
+                >
+                  <span className="font-mono text-sm">
+                    /{command.name}
+                    {command.argumentHint && <span className="text-muted-foreground"> {command.argumentHint}</span>}
+                  </span>
+                  <span className="ml-auto pl-4 text-xs text-muted-foreground">{command.description}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      )}
+      <Textarea
+        ref={textarea}
+        rows={1}
+        value={value}
+        onChange={(e) => handleChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onPaste={onPaste}
+        placeholder={placeholder}
+        disabled={disabled}
+        aria-label="Message"
+        className="min-h-[48px] resize-none bg-background border-border text-foreground placeholder:text-muted-foreground rounded-xl px-4 py-3 focus:ring-2 focus:ring-primary/20 transition-all duration-200"
+      />
+    </div>
+  );
+};
+
+export default Composer;
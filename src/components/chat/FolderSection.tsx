@@ -0,0 +1,159 @@
+import { useEffect, useRef, useState } from "react";
+import { ChevronRight, Folder, GripVertical, MoreHorizontal, Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { CHAT_DRAG_TYPE, FOLDER_DRAG_TYPE, type ChatFolder } from "@/lib/organizer";
+
+interface FolderSectionProps {
+  folder: ChatFolder;
+  count: number;
+  children: React.ReactNode;
+  // The user's own folders can be renamed, deleted and dragged into a new order; a space's can't.
+  editable?: boolean;
+  // Opens straight into renaming, e.g. for a folder that was just created.
+  renameOnMount?: boolean;
+  onDropChat: (chatId: string) => void;
+  // Another folder dropped on this one moves in front of it.
+  onDropFolder?: (folderId: string) => void;
+  onRename?: (name: string) => void;
+  onDelete?: () => void;
+}
+
+const FolderSection = ({
+  folder,
+  count,
+  children,
+  editable = false,
+  renameOnMount = false,
+  onDropChat,
+  onDropFolder,
+  onRename,
+  onDelete,
+}: FolderSectionProps) => {
+  const [isRenaming, setIsRenaming] = useState(renameOnMount);
+  const [draftName, setDraftName] = useState(folder.name);
+  const [isDropTarget, setIsDropTarget] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Enter and Escape end renaming themselves; the blur that follows must not commit again.
+  const renameDone = useRef(false);
+
+  useEffect(() => {
+    if (isRenaming) inputRef.current?.select();
+  }, [isRenaming]);
+
+  const startRenaming = () => {
+    setDraftName(folder.name);
+    renameDone.current = false;
+    setIsRenaming(true);
+  };
+
+  const commitRename = () => {
+    if (renameDone.current) return;
+    renameDone.current = true;
+    const name = draftName.trim();
+    if (name && name !== folder.name) onRename?.(name);
+    setIsRenaming(false);
+  };
+
+  const acceptsDrag = (e: React.DragEvent) =>
+    e.dataTransfer.types.includes(CHAT_DRAG_TYPE) || (editable && e.dataTransfer.types.includes(FOLDER_DRAG_TYPE));
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!acceptsDrag(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+    setIsDropTarget(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!acceptsDrag(e)) return;
+    e.preventDefault();
+    setIsDropTarget(false);
+    const chatId = e.dataTransfer.getData(CHAT_DRAG_TYPE);
+    const folderId = e.dataTransfer.getData(FOLDER_DRAG_TYPE);
+    if (chatId) onDropChat(chatId);
+    else if (folderId && folderId !== folder.id) onDropFolder?.(folderId);
+  };
+
+  if (isRenaming) {
+    return (
+      <div className="p-2">
+        <Input
+          ref={inputRef}
+          value={draftName}
+          onChange={(e) => setDraftName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              commitRename();
+            } else if (e.key === "Escape") {
+              renameDone.current = true;
+              setIsRenaming(false);
+            }
+          }}
+          onBlur={commitRename}
+          aria-label="Folder name"
+          className="h-8 text-sm"
+        />
+      </div>
+    );
+  }
+
+  return (
+    <Collapsible defaultOpen className="mt-2">
+      <div
+        className={`group flex items-center rounded-md ${isDropTarget ? "bg-primary/10 ring-1 ring-primary" : ""}`}
+        draggable={editable}
+        onDragStart={(e) => {
+          e.dataTransfer.setData(FOLDER_DRAG_TYPE, folder.id);
+          e.dataTransfer.effectAllowed = "move";
+        }}
+        onDragOver={handleDragOver}
+        onDragLeave={() => setIsDropTarget(false)}
+        onDrop={handleDrop}
+      >
+        {editable && <GripVertical className="h-3 w-3 ml-1 text-muted-foreground opacity-0 group-hover:opacity-100 cursor-grab" />}
+        <CollapsibleTrigger className="group/trigger flex flex-1 min-w-0 items-center px-2 py-2 text-xs font-medium text-muted-foreground hover:text-foreground">
+          <ChevronRight className="h-3 w-3 mr-1 flex-shrink-0 transition-transform group-data-[state=open]/trigger:rotate-90" />
+          <Folder className="h-3 w-3 mr-1 flex-shrink-0" />
+          <span className="truncate">{folder.name}</span>
+          <span className="ml-1 flex-shrink-0">({count})</span>
+        </CollapsibleTrigger>
+        {editable && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="mr-1 h-6 w-6 p-0 opacity-0 group-hover:opacity-100 focus:opacity-100 data-[state=open]:opacity-100"
+                aria-label="Folder actions"
+              >
+                <MoreHorizontal className="h-3 w-3" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onSelect={startRenaming}>
+                <Pencil className="h-4 w-4 mr-2" />
+                Rename
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={onDelete} className="text-destructive focus:text-destructive">
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete folder
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+      <CollapsibleContent className="space-y-1">{children}</CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default FolderSection;
@@ -0,0 +1,56 @@
+import ReactMarkdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import rehypeSanitize, { defaultSchema } from "rehype-sanitize";
+import rehypeKatex from "rehype-katex";
+import rehypeHighlight from "rehype-highlight";
+import CodeBlock from "@/components/chat/CodeBlock";
+import "katex/dist/katex.min.css";
+import "highlight.js/styles/github-dark.css";
+
+interface MarkdownMessageProps {
+  content: string;
+}
+
+// The default schema drops every class but `language-*`; remark-math marks its nodes with
+// `math-inline`/`math-display`, which rehype-katex looks for after sanitizing.
+const sanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [
+      ...(defaultSchema.attributes?.code ?? []),
+      ["className", /^language-./, "math-inline", "math-display"],
+    ],
+  },
+};
+
+const components: Components = {
+  pre: ({ children }) => <CodeBlock>{children}</CodeBlock>,
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer nofollow">
+      {children}
+    </a>
+  ),
+  table: ({ children }) => (
+    <div className="overflow-x-auto">
+      <table>{children}</table>
+    </div>
+  ),
+};
+
+// Raw HTML in model output is never rendered: react-markdown escapes it and the sanitizer
+// strips anything unexpected before KaTeX and highlight.js add their own markup.
+const MarkdownMessage = ({ content }: MarkdownMessageProps) => (
+  <div className="prose prose-sm max-w-none text-foreground prose-headings:text-foreground prose-strong:text-foreground prose-code:before:content-none prose-code:after:content-none prose-code:bg-background/60 prose-code:rounded prose-code:px-1 prose-code:py-0.5 prose-a:text-primary">
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm, remarkMath]}
+      rehypePlugins={[[rehypeSanitize, sanitizeSchema], rehypeKatex, [rehypeHighlight, { detect: true }]]}
+      components={components}
+    >
+      {content}
+    </ReactMarkdown>
+  </div>
+);
+
+export default MarkdownMessage;
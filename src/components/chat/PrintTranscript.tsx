@@ -0,0 +1,39 @@
+import MarkdownMessage from "@/components/chat/MarkdownMessage";
+import { getActiveBranch } from "@/lib/message-tree";
+import type { ChatHistory } from "@/types/chat";
+
+interface PrintTranscriptProps {
+  chats: ChatHistory[];
+}
+
+// Only visible when printing; the browser's "Save as PDF" turns it into a PDF transcript.
+const PrintTranscript = ({ chats }: PrintTranscriptProps) => (
+  <div className="hidden print:block bg-white text-black p-8">
+    {chats.map((chat, index) => (
+      <article key={chat.id} className={index > 0 ? "break-before-page" : ""}>
+        <h1 className="text-2xl font-semibold mb-1">{chat.title}</h1>
+        <p className="text-xs text-gray-500 mb-6">
+          Created {chat.createdAt.toLocaleString()} · Updated {chat.updatedAt.toLocaleString()}
+        </p>
+        {getActiveBranch(chat).filter((message) => message.content || message.attachments?.length).map((message) => (
+          <section key={message.id} className="mb-5 break-inside-avoid">
+            <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-1">
+              {message.isBot ? "Assistant" : "You"} · {message.timestamp.toLocaleString()}
+              {message.interrupted && " · interrupted"}
+            </p>
+            {message.isBot ? (
+              <MarkdownMessage content={message.content} />
+            ) : (
+              <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+            )}
+            {message.attachments?.map((attachment) => (
+              <p key={attachment.id} className="text-xs text-gray-500 mt-1">Attachment: {attachment.name}</p>
+            ))}
+          </section>
+        ))}
+      </article>
+    ))}
+  </div>
+);
+
+export default PrintTranscript;
@@ -0,0 +1,71 @@
+import { useMemo, useState } from "react";
+import { Bot, User } from "lucide-react";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { buildSearchIndex, searchChats } from "@/lib/search";
+import type { ChatHistory } from "@/types/chat";
+
+interface SearchPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  chats: ChatHistory[];
+  onSelect: (chatId: string, messageId: string) => void;
+}
+
+const SearchPalette = ({ open, onOpenChange, chats, onSelect }: SearchPaletteProps) => {
+  const [query, setQuery] = useState("");
+  const index = useMemo(() => buildSearchIndex(chats), [chats]);
+  const results = useMemo(() => searchChats(index, query), [index, query]);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setQuery("");
+    onOpenChange(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg">
+        <DialogTitle className="sr-only">Search conversations</DialogTitle>
+        {/* Results are already filtered and ranked here, so cmdk's own fuzzy filter stays off. */}
+        <Command shouldFilter={false} className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]]:px-2 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-2">
+          <CommandInput value={query} onValueChange={setQuery} placeholder="Search all conversations..." />
+          <CommandList className="max-h-[400px]">
+            {query.trim() && <CommandEmpty>No messages found.</CommandEmpty>}
+            {results.map(({ chat, matches }) => (
+              <CommandGroup key={chat.id} heading={chat.title}>
+                {matches.map(({ message, snippet }) => (
+                  <CommandItem
+                    key={message.id}
+                    value={`${chat.id}:${message.id}`}
+                    onSelect={() => {
+                      handleOpenChange(false);
+                      onSelect(chat.id, message.id);
+                    }}
+                    className="items-start"
+                  >
+                    {message.isBot ? (
+                      <Bot className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0 text-muted-foreground" />
+                    ) : (
+                      <User className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0 text-muted-foreground" />
+                    )}
+                    <span className="text-sm leading-snug line-clamp-2">
+                      {snippet.map((part, i) =>
+                        part.highlight ? (
+                          <mark key={i} className="bg-primary/25 text-foreground rounded-sm px-0.5">{part.text}</mark>
+                        ) : (
+                          <span key={i}>{part.text}</span>
+                        )
+                      )}
+                    </span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            ))}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SearchPalette;
@@ -0,0 +1,183 @@
+import { useEffect, useState } from "react";
+import { Copy, Link2, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import { useSession } from "@/hooks/use-session";
+import { useShares } from "@/hooks/use-shares";
+import { useToast } from "@/hooks/use-toast";
+import { getErrorMessage } from "@/lib/api";
+import {
+  SHARE_EXPIRY_OPTIONS,
+  getShareExpiry,
+  getShareUrl,
+  isShareExpired,
+  type SharedChat,
+} from "@/lib/shares";
+import type { ChatHistory } from "@/types/chat";
+
+const DEFAULT_EXPIRY = "7";
+
+interface ShareDialogProps {
+  // The dialog is open while a chat is set.
+  chat: ChatHistory | null;
+  onClose: () => void;
+}
+
+const ShareDialog = ({ chat, onClose }: ShareDialogProps) => {
+  const { user } = useSession();
+  const { toast } = useToast();
+  const { shares, createShare, updateShare, revokeShare } = useShares(user);
+  const [expiry, setExpiry] = useState(DEFAULT_EXPIRY);
+  const [redactOwner, setRedactOwner] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const chatShares = shares.filter((share) => share.chatId === chat?.id);
+
+  useEffect(() => {
+    if (!chat) return;
+    setExpiry(DEFAULT_EXPIRY);
+    setRedactOwner(false);
+  }, [chat]);
+
+  const showError = (error: unknown, fallback: string) =>
+    toast({ title: "Error", description: getErrorMessage(error, fallback), variant: "destructive" });
+
+  const copyLink = async (share: SharedChat) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(share.id));
+      toast({ title: "Link copied" });
+    } catch {
+      toast({ title: "Couldn't copy the link", description: getShareUrl(share.id), variant: "destructive" });
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!chat) return;
+    setIsCreating(true);
+    try {
+      const share = await createShare({ chat, options: { expiresAt: getShareExpiry(expiry), redactOwner } });
+      await copyLink(share);
+    } catch (error) {
+      showError(error, "Failed to create the link");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleUpdate = async (share: SharedChat, changes: Partial<Pick<SharedChat, "expiresAt" | "redactOwner">>) => {
+    try {
+      await updateShare({
+        id: share.id,
+        options: { expiresAt: share.expiresAt, redactOwner: share.redactOwner, ...changes },
+      });
+    } catch (error) {
+      showError(error, "Failed to update the link");
+    }
+  };
+
+  const handleRevoke = async (share: SharedChat) => {
+    try {
+      await revokeShare(share.id);
+      toast({ title: "Link revoked", description: "It no longer opens for anyone." });
+    } catch (error) {
+      showError(error, "Failed to revoke the link");
+    }
+  };
+
+  return (
+    <Dialog open={!!chat} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share "{chat?.title}"</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can read the conversation as it is now. Messages sent later aren't included.
+          </DialogDescription>
+        </DialogHeader>
+
+        {chatShares.length > 0 && (
+          <div className="space-y-3">
+            {chatShares.map((share) => {
+              const expired = isShareExpired(share);
+              return (
+                <div key={share.id} className="space-y-2 rounded-lg border border-border p-3">
+                  <div className="flex items-center space-x-2">
+                    <Input readOnly value={getShareUrl(share.id)} className="h-8 text-xs" aria-label="Share link" />
+                    <Button variant="outline" size="sm" onClick={() => copyLink(share)} aria-label="Copy link">
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleRevoke(share)} aria-label="Revoke link">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    {expired ? (
+                      <Badge variant="destructive">Expired</Badge>
+                    ) : (
+                      <span>{share.expiresAt ? `Expires ${share.expiresAt.toLocaleString()}` : "Never expires"}</span>
+                    )}
+                    <Select value="" onValueChange={(value) => handleUpdate(share, { expiresAt: getShareExpiry(value) })}>
+                      <SelectTrigger className="h-7 w-auto text-xs">
+                        <SelectValue placeholder={expired ? "Extend" : "Change expiry"} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SHARE_EXPIRY_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.value === "never" ? "Never expire" : `${option.label} from now`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <label className="ml-auto flex items-center space-x-2">
+                      <Switch
+                        checked={share.redactOwner}
+                        onCheckedChange={(checked) => handleUpdate(share, { redactOwner: checked })}
+                      />
+                      <span>Hide my username</span>
+                    </label>
+                  </div>
+                </div>
+              );
+            })}
+            <Separator />
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="share-expiry">Link expires after</Label>
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger id="share-expiry" className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SHARE_EXPIRY_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="share-redact">Hide my username</Label>
+              <p className="text-xs text-muted-foreground">Readers see "Shared from ChatBot AI" instead of your name.</p>
+            </div>
+            <Switch id="share-redact" checked={redactOwner} onCheckedChange={setRedactOwner} />
+          </div>
+          <Button className="w-full" onClick={handleCreate} disabled={isCreating}>
+            <Link2 className="h-4 w-4 mr-2" />
+            {chatShares.length > 0 ? "Create another link" : "Create link"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShareDialog;
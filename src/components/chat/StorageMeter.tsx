@@ -0,0 +1,30 @@
+import { Progress } from "@/components/ui/progress";
+import { useStorageUsage } from "@/hooks/use-storage-usage";
+import { formatFileSize } from "@/lib/attachments";
+
+// Past this share of the quota the meter turns red, since saving may soon fail.
+const WARNING_RATIO = 0.8;
+
+const StorageMeter = () => {
+  const usage = useStorageUsage();
+  if (!usage) return null;
+
+  const ratio = Math.min(usage.used / usage.quota, 1);
+  const label = `${formatFileSize(usage.used)} of ${usage.backend === "localStorage" ? "about " : ""}${formatFileSize(usage.quota)}`;
+
+  return (
+    <div className="mb-3" title={usage.backend === "indexedDB" ? "Stored in IndexedDB" : "Stored in localStorage"}>
+      <div className="flex justify-between text-xs text-muted-foreground mb-1">
+        <span>Storage</span>
+        <span>{label}</span>
+      </div>
+      <Progress
+        value={ratio * 100}
+        aria-label={`Storage used: ${label}`}
+        className={`h-1.5 ${ratio >= WARNING_RATIO ? "[&>div]:bg-destructive" : ""}`}
+      />
+    </div>
+  );
+};
+
+export default StorageMeter;
@@ -0,0 +1,65 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface JoinSpaceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Resolves false when joining failed and the dialog should stay open.
+  onJoin: (joinCode: string) => Promise<boolean>;
+}
+
+const JoinSpaceDialog = ({ open, onOpenChange, onJoin }: JoinSpaceDialogProps) => {
+  const [joinCode, setJoinCode] = useState("");
+  const [isJoining, setIsJoining] = useState(false);
+
+  useEffect(() => {
+    if (open) setJoinCode("");
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!joinCode.trim()) return;
+    setIsJoining(true);
+    const joined = await onJoin(joinCode);
+    setIsJoining(false);
+    if (joined) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Join a space</DialogTitle>
+          <DialogDescription>Enter the code your instructor gave you.</DialogDescription>
+        </DialogHeader>
+        <form className="space-y-4" onSubmit={handleSubmit}>
+          <div className="space-y-2">
+            <Label htmlFor="join-code">Join code</Label>
+            <Input
+              id="join-code"
+              value={joinCode}
+              onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+              placeholder="ABC123"
+              autoComplete="off"
+              className="font-mono tracking-widest"
+              autoFocus
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isJoining || !joinCode.trim()}>
+              Join
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default JoinSpaceDialog;
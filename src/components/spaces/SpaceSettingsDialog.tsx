@@ -0,0 +1,170 @@
+import { useEffect, useState } from "react";
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import type { Space, SpaceDraft, SpaceFolder } from "@/lib/spaces";
+
+interface SpaceSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The space being edited; a new one when missing.
+  space?: Space;
+  // Resolves false when saving failed and the dialog should stay open.
+  onSave: (draft: SpaceDraft) => Promise<boolean>;
+}
+
+const SpaceSettingsDialog = ({ open, onOpenChange, space, onSave }: SpaceSettingsDialogProps) => {
+  const [name, setName] = useState("");
+  const [systemPrompt, setSystemPrompt] = useState("");
+  const [pool, setPool] = useState("");
+  const [folders, setFolders] = useState<SpaceFolder[]>([]);
+  const [newFolder, setNewFolder] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(space?.name ?? "");
+    setSystemPrompt(space?.defaultSystemPrompt ?? "");
+    setPool(space?.dailyQuestionPool?.toString() ?? "");
+    setFolders(space?.folders ?? []);
+    setNewFolder("");
+  }, [open, space]);
+
+  const parsedPool = pool.trim() ? Number(pool) : null;
+  const poolInvalid = parsedPool !== null && (!Number.isInteger(parsedPool) || parsedPool < 1);
+
+  const addFolder = () => {
+    const folderName = newFolder.trim();
+    if (!folderName) return;
+    setFolders((current) => [...current, { id: `folder-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`, name: folderName }]);
+    setNewFolder("");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || poolInvalid) return;
+    setIsSaving(true);
+    const saved = await onSave({
+      name: name.trim(),
+      defaultSystemPrompt: systemPrompt.trim() || undefined,
+      dailyQuestionPool: parsedPool,
+      folders: folders.map((folder) => ({ ...folder, name: folder.name.trim() })).filter((folder) => folder.name),
+    });
+    setIsSaving(false);
+    if (saved) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{space ? "Space settings" : "New space"}</DialogTitle>
+          <DialogDescription>
+            {space
+              ? `Students join with the code ${space.joinCode}. ${space.members.length} ${space.members.length === 1 ? "member has" : "members have"} joined.`
+              : "A space groups a course's chats. You'll get a code for students to join with."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form className="space-y-4" onSubmit={handleSubmit}>
+          <div className="space-y-2">
+            <Label htmlFor="space-name">Name</Label>
+            <Input
+              id="space-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="CS101 – Fall term"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="space-system-prompt">Default system prompt</Label>
+            <Textarea
+              id="space-system-prompt"
+              value={systemPrompt}
+              onChange={(e) => setSystemPrompt(e.target.value)}
+              placeholder="Used by every chat in the space that doesn't set its own."
+              className="min-h-[100px]"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="space-pool">Shared questions per day</Label>
+            <Input
+              id="space-pool"
+              type="number"
+              min={1}
+              step={1}
+              value={pool}
+              onChange={(e) => setPool(e.target.value)}
+              placeholder="No shared limit"
+            />
+            {poolInvalid ? (
+              <p className="text-xs text-destructive">Enter a whole number of at least 1.</p>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                One pool for the whole space, on top of each member's own limits.
+              </p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label>Folders</Label>
+            {folders.map((folder) => (
+              <div key={folder.id} className="flex items-center space-x-2">
+                <Input
+                  value={folder.name}
+                  onChange={(e) =>
+                    setFolders((current) =>
+                      current.map((other) => (other.id === folder.id ? { ...other, name: e.target.value } : other))
+                    )
+                  }
+                  aria-label="Folder name"
+                  className="h-8"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setFolders((current) => current.filter((other) => other.id !== folder.id))}
+                  aria-label={`Remove folder ${folder.name}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex items-center space-x-2">
+              <Input
+                value={newFolder}
+                onChange={(e) => setNewFolder(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    addFolder();
+                  }
+                }}
+                placeholder="New folder, e.g. Week 1"
+                className="h-8"
+              />
+              <Button type="button" variant="outline" size="sm" onClick={addFolder} disabled={!newFolder.trim()}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">Chats in a removed folder become unfiled.</p>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !name.trim() || poolInvalid}>
+              {space ? "Save" : "Create space"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SpaceSettingsDialog;
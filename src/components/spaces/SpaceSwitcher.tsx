@@ -0,0 +1,85 @@
+import { LogOut, MoreHorizontal, Plus, Settings, UserPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Space } from "@/lib/spaces";
+import type { SpaceRole } from "@/types/chat";
+
+// Select items can't have an empty value, so personal chats get a placeholder id.
+const PERSONAL = "__personal";
+
+interface SpaceSwitcherProps {
+  spaces: Space[];
+  activeSpace: Space | null;
+  // The user's role in the active space.
+  role: SpaceRole | null;
+  canCreate: boolean;
+  onChange: (spaceId: string | null) => void;
+  onJoin: () => void;
+  onCreate: () => void;
+  onEdit: () => void;
+  onLeave: () => void;
+}
+
+const SpaceSwitcher = ({ spaces, activeSpace, role, canCreate, onChange, onJoin, onCreate, onEdit, onLeave }: SpaceSwitcherProps) => (
+  <div className="flex items-center space-x-2 mb-3">
+    <Select value={activeSpace?.id ?? PERSONAL} onValueChange={(value) => onChange(value === PERSONAL ? null : value)}>
+      <SelectTrigger className="h-9 flex-1 bg-background" aria-label="Space">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={PERSONAL}>Personal chats</SelectItem>
+        {spaces.map((space) => (
+          <SelectItem key={space.id} value={space.id}>
+            {space.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-9 bg-background hover:bg-muted border-border text-muted-foreground"
+          aria-label="Space actions"
+        >
+          <MoreHorizontal className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onSelect={onJoin}>
+          <UserPlus className="h-4 w-4 mr-2" />
+          Join a space...
+        </DropdownMenuItem>
+        {canCreate && (
+          <DropdownMenuItem onSelect={onCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            New space...
+          </DropdownMenuItem>
+        )}
+        {activeSpace && role && <DropdownMenuSeparator />}
+        {activeSpace && role === "owner" && (
+          <DropdownMenuItem onSelect={onEdit}>
+            <Settings className="h-4 w-4 mr-2" />
+            Space settings...
+          </DropdownMenuItem>
+        )}
+        {activeSpace && role === "member" && (
+          <DropdownMenuItem onSelect={onLeave} className="text-destructive focus:text-destructive">
+            <LogOut className="h-4 w-4 mr-2" />
+            Leave {activeSpace.name}
+          </DropdownMenuItem>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  </div>
+);
+
+export default SpaceSwitcher;
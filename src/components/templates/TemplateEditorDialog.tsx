@@ -0,0 +1,113 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { getTemplateVariables, parseTags, type PromptTemplate } from "@/lib/templates";
+
+interface TemplateEditorDialogProps {
+  // The dialog is open while a template (a blank one for "new") is set.
+  template: PromptTemplate | null;
+  onClose: () => void;
+  // Resolves false when saving failed and the dialog should stay open.
+  onSave: (template: PromptTemplate) => Promise<boolean>;
+}
+
+const TemplateEditorDialog = ({ template, onClose, onSave }: TemplateEditorDialogProps) => {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [tags, setTags] = useState("");
+  const [body, setBody] = useState("");
+  const [published, setPublished] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const variables = getTemplateVariables(body);
+
+  useEffect(() => {
+    if (!template) return;
+    setName(template.name);
+    setDescription(template.description ?? "");
+    setTags(template.tags.join(", "));
+    setBody(template.body);
+    setPublished(template.published);
+  }, [template]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!template || !name.trim() || !body.trim()) return;
+    setIsSaving(true);
+    const saved = await onSave({
+      ...template,
+      name: name.trim(),
+      description: description.trim() || undefined,
+      tags: parseTags(tags),
+      body,
+      published,
+    });
+    setIsSaving(false);
+    if (saved) onClose();
+  };
+
+  return (
+    <Dialog open={!!template} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{template?.name ? "Edit template" : "New template"}</DialogTitle>
+          <DialogDescription>Use {"{{name}}"} for parts filled in when the template is used.</DialogDescription>
+        </DialogHeader>
+
+        <form className="space-y-4" onSubmit={handleSubmit}>
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Name</Label>
+            <Input id="template-name" value={name} onChange={(e) => setName(e.target.value)} required />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-description">Description</Label>
+            <Input id="template-description" value={description} onChange={(e) => setDescription(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-tags">Tags</Label>
+            <Input
+              id="template-tags"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="cs101, essays"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-body">Prompt</Label>
+            <Textarea
+              id="template-body"
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              placeholder="Explain {{topic}} to a first-year student, with one worked example."
+              className="min-h-[140px]"
+              required
+            />
+            {variables.length > 0 && (
+              <p className="text-xs text-muted-foreground">Variables: {variables.join(", ")}</p>
+            )}
+          </div>
+          <div className="flex items-center justify-between rounded-lg border border-border p-3">
+            <div>
+              <Label htmlFor="template-published">Published</Label>
+              <p className="text-xs text-muted-foreground">Published templates are available to all students.</p>
+            </div>
+            <Switch id="template-published" checked={published} onCheckedChange={setPublished} />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving || !name.trim() || !body.trim()}>
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TemplateEditorDialog;
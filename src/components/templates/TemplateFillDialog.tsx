@@ -0,0 +1,70 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { fillTemplate, getTemplateVariables, type PromptTemplate } from "@/lib/templates";
+
+interface TemplateFillDialogProps {
+  // The dialog is open while a template is set.
+  template: PromptTemplate | null;
+  onClose: () => void;
+  onInsert: (text: string) => void;
+}
+
+const TemplateFillDialog = ({ template, onClose, onInsert }: TemplateFillDialogProps) => {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const variables = template ? getTemplateVariables(template.body) : [];
+
+  useEffect(() => {
+    setValues({});
+  }, [template]);
+
+  const insert = () => {
+    if (!template) return;
+    onInsert(fillTemplate(template.body, values));
+    onClose();
+  };
+
+  return (
+    <Dialog open={!!template} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{template?.name}</DialogTitle>
+          {template?.description && <DialogDescription>{template.description}</DialogDescription>}
+        </DialogHeader>
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            insert();
+          }}
+        >
+          {variables.map((name, index) => (
+            <div key={name} className="space-y-2">
+              <Label htmlFor={`template-variable-${name}`}>{name}</Label>
+              <Input
+                id={`template-variable-${name}`}
+                value={values[name] ?? ""}
+                onChange={(e) => setValues((current) => ({ ...current, [name]: e.target.value }))}
+                autoFocus={index === 0}
+              />
+            </div>
+          ))}
+          <div className="rounded-lg border border-border bg-muted/50 p-3 text-sm whitespace-pre-wrap max-h-48 overflow-y-auto">
+            {template && fillTemplate(template.body, Object.fromEntries(Object.entries(values).filter(([, value]) => value)))}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit">Insert</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TemplateFillDialog;
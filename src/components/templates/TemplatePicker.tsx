@@ -0,0 +1,59 @@
+import { Link } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import type { PromptTemplate } from "@/lib/templates";
+
+interface TemplatePickerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  templates: PromptTemplate[];
+  onPick: (template: PromptTemplate) => void;
+}
+
+const TemplatePicker = ({ open, onOpenChange, templates, onPick }: TemplatePickerProps) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent className="overflow-hidden p-0 shadow-lg">
+      <DialogTitle className="sr-only">Insert a template</DialogTitle>
+      <Command className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]]:px-2 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-2">
+        <CommandInput placeholder="Search templates by name or tag..." />
+        <CommandList className="max-h-[400px]">
+          <CommandEmpty>
+            No templates found.{" "}
+            <Link to="/templates" className="text-primary underline-offset-4 hover:underline">
+              Browse templates
+            </Link>
+          </CommandEmpty>
+          <CommandGroup heading="Templates">
+            {templates.map((template) => (
+              <CommandItem
+                key={template.id}
+                value={template.id}
+                keywords={[template.name, ...template.tags]}
+                onSelect={() => {
+                  onOpenChange(false);
+                  onPick(template);
+                }}
+                className="flex-col items-start"
+              >
+                <div className="flex w-full items-center">
+                  <span className="font-medium">{template.name}</span>
+                  <span className="ml-auto flex gap-1">
+                    {template.tags.map((tag) => (
+                      <Badge key={tag} variant="secondary" className="text-xs font-normal">{tag}</Badge>
+                    ))}
+                  </span>
+                </div>
+                {template.description && (
+                  <span className="text-xs text-muted-foreground line-clamp-1">{template.description}</span>
+                )}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        </CommandList>
+      </Command>
+    </DialogContent>
+  </Dialog>
+);
+
+export default TemplatePicker;
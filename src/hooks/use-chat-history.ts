@@ -0,0 +1,105 @@
+import { useCallback, useMemo } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { getHistoryRepository } from "@/lib/history";
+import { isApiConfigured } from "@/lib/api";
+import type { ChatHistory } from "@/types/chat";
+
+const SYNC_INTERVAL_MS = 60 * 1000;
+
+// Puts `chat` in the list in place of any older copy, keeping the newest chats first.
+const withChat = (chats: ChatHistory[], chat: ChatHistory) =>
+  [chat, ...chats.filter((existing) => existing.id !== chat.id)].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+export function useChatHistory(username: string | undefined) {
+  const queryClient = useQueryClient();
+  const repository = useMemo(() => (username ? getHistoryRepository(username) : null), [username]);
+  const queryKey = useMemo(() => ["history", username], [username]);
+
+  const { data: chats = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: () => repository!.list(),
+    enabled: !!repository,
+    staleTime: Infinity,
+  });
+
+  // Background sync; its result replaces the list once the server has been reconciled.
+  const { error: syncError } = useQuery({
+    queryKey: ["history-sync", username],
+    queryFn: async () => {
+      const merged = await repository!.sync();
+      queryClient.setQueryData(queryKey, merged);
+      return merged.length;
+    },
+    enabled: !!repository && isApiConfigured(),
+    refetchInterval: SYNC_INTERVAL_MS,
+  });
+
+  const requestSync = useCallback(() => {
+    if (isApiConfigured()) queryClient.invalidateQueries({ queryKey: ["history-sync", username] });
+  }, [queryClient, username]);
+
+  const saveChat = useCallback(async (chat: ChatHistory) => {
+    const saved = { ...chat, updatedAt: new Date() };
+    const previous = queryClient.getQueryData<ChatHistory[]>(queryKey)?.find((existing) => existing.id === saved.id);
+    queryClient.setQueryData<ChatHistory[]>(queryKey, (current = []) => withChat(current, saved));
+    try {
+      await repository?.save(saved);
+    } catch (error) {
+      // The list goes back to what's stored, unless the chat has been changed again since.
+      queryClient.setQueryData<ChatHistory[]>(queryKey, (current = []) => {
+        if (!current.includes(saved)) return current;
+        const others = current.filter((existing) => existing !== saved);
+        return previous ? withChat(others, previous) : others;
+      });
+      throw error;
+    }
+    requestSync();
+    queryClient.invalidateQueries({ queryKey: ["storage-usage"] });
+    return saved;
+  }, [queryClient, queryKey, repository, requestSync]);
+
+  const removeChat = useCallback(async (id: string) => {
+    const previous = queryClient.getQueryData<ChatHistory[]>(queryKey)?.find((chat) => chat.id === id);
+    queryClient.setQueryData<ChatHistory[]>(queryKey, (current = []) => current.filter((chat) => chat.id !== id));
+    try {
+      await repository?.remove(id);
+    } catch (error) {
+      if (previous) {
+        queryClient.setQueryData<ChatHistory[]>(queryKey, (current = []) =>
+          current.some((chat) => chat.id === id) ? current : withChat(current, previous)
+        );
+      }
+      throw error;
+    }
+    requestSync();
+    queryClient.invalidateQueries({ queryKey: ["storage-usage"] });
+  }, [queryClient, queryKey, repository, requestSync]);
+
+  // Adds the next page of older messages to a long chat, in the list too. Returns the chat with them.
+  const loadOlderMessages = useCallback(async (chat: ChatHistory) => {
+    const loaded = (await repository?.loadOlderMessages?.(chat)) ?? chat;
+    const page = loaded.messages.slice(0, loaded.messages.length - chat.messages.length);
+    queryClient.setQueryData<ChatHistory[]>(queryKey, (current = []) =>
+      current.map((existing) =>
+        // Skipped when the listed chat was reloaded meanwhile and no longer starts where `chat` did.
+        existing.id === chat.id && existing.olderMessageCount === chat.olderMessageCount
+          ? { ...existing, messages: [...page, ...existing.messages], olderMessageCount: loaded.olderMessageCount }
+          : existing
+      )
+    );
+    return loaded;
+  }, [queryClient, queryKey, repository]);
+
+  // The chats with every message loaded, for exporting, searching or anything else that needs
+  // all of them.
+  const getFullChats = useCallback(
+    (list: ChatHistory[]) =>
+      Promise.all(list.map((chat) => (chat.olderMessageCount && repository?.loadFullChat ? repository.loadFullChat(chat) : chat))),
+    [repository]
+  );
+
+  // Unreadable chats set aside while loading, counted once; 0 where the history isn't in the browser.
+  const takeQuarantinedCount = useCallback(() => repository?.takeQuarantinedCount?.() ?? 0, [repository]);
+
+  return { chats, isLoading, syncError, saveChat, removeChat, loadOlderMessages, getFullChats, takeQuarantinedCount };
+}
@@ -0,0 +1,34 @@
+import { useCallback, useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { EMPTY_ORGANIZER, getOrganizerRepository, type ChatOrganizer } from "@/lib/organizer";
+
+export function useChatOrganizer(username: string | undefined) {
+  const queryClient = useQueryClient();
+  const repository = useMemo(() => (username ? getOrganizerRepository(username) : null), [username]);
+  const queryKey = useMemo(() => ["organizer", username], [username]);
+
+  const { data: organizer = EMPTY_ORGANIZER } = useQuery({
+    queryKey,
+    queryFn: () => repository!.get(),
+    enabled: !!repository,
+  });
+
+  // Shown right away; a failed save refetches the stored version.
+  const { mutateAsync } = useMutation({
+    mutationFn: (next: ChatOrganizer) => repository!.save(next),
+    onMutate: (next) => queryClient.setQueryData(queryKey, next),
+    onError: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  const updateOrganizer = useCallback(
+    (change: (current: ChatOrganizer) => ChatOrganizer) =>
+      mutateAsync(change(queryClient.getQueryData<ChatOrganizer>(queryKey) ?? EMPTY_ORGANIZER)),
+    [mutateAsync, queryClient, queryKey]
+  );
+
+  return {
+    folders: organizer.folders,
+    tags: organizer.tags,
+    updateOrganizer,
+  };
+}
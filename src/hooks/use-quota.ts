@@ -0,0 +1,47 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { getBlockingPeriod, getQuotaService, type QuotaLimit, type QuotaPool, type QuotaStatus } from "@/lib/quota";
+import type { UserData } from "@/types/chat";
+
+// With a pool, questions also draw from that space's shared daily pool.
+export function useQuota(user: UserData | null, pool?: QuotaPool) {
+  const queryClient = useQueryClient();
+  const queryKey = ["quota", user?.username, pool?.spaceId, pool?.dailyLimit];
+  const [now, setNow] = useState(() => new Date());
+
+  const { data: status } = useQuery({
+    queryKey,
+    queryFn: () => getQuotaService().getStatus(user!, pool),
+    enabled: !!user,
+  });
+
+  const consume = useMutation({
+    mutationFn: () => getQuotaService().consume(user!, pool),
+    onSuccess: (next) => queryClient.setQueryData<QuotaStatus>(queryKey, next),
+    onError: () => queryClient.invalidateQueries({ queryKey }),
+  });
+
+  // Tick once a minute for the countdown, and refetch once the day rolls over.
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const blockingPeriod: QuotaLimit | null = status ? getBlockingPeriod(status) : null;
+  const resetsAt = status
+    ? Math.min(...Object.values(status).map((window) => window.resetsAt.getTime()))
+    : undefined;
+  useEffect(() => {
+    if (resetsAt && now.getTime() >= resetsAt) {
+      queryClient.invalidateQueries({ queryKey: ["quota", user?.username] });
+    }
+  }, [now, resetsAt, queryClient, user?.username]);
+
+  return {
+    status,
+    now,
+    blockingPeriod,
+    canAsk: !!status && !blockingPeriod,
+    consume: consume.mutateAsync,
+  };
+}
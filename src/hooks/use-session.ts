@@ -0,0 +1,24 @@
+import { createContext, useContext } from "react";
+import type { UserData } from "@/types/chat";
+
+export type SessionStatus = "authenticated" | "unauthenticated";
+
+export interface Session {
+  status: SessionStatus;
+  token: string | null;
+  user: UserData | null;
+  // `profile` fills in whatever the token's claims don't carry (e.g. for opaque tokens).
+  login: (token: string, profile?: Partial<UserData>, refreshToken?: string) => UserData;
+  logout: () => void;
+  updateUser: (changes: Partial<UserData>) => void;
+}
+
+export const SessionContext = createContext<Session | null>(null);
+
+export function useSession() {
+  const session = useContext(SessionContext);
+  if (!session) {
+    throw new Error("useSession must be used within an AuthProvider");
+  }
+  return session;
+}
@@ -0,0 +1,40 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { getShareService, type ShareOptions } from "@/lib/shares";
+import type { ChatHistory, UserData } from "@/types/chat";
+
+export function useShares(user: UserData | null) {
+  const queryClient = useQueryClient();
+  const queryKey = ["shares", user?.username];
+
+  const { data: shares = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: () => getShareService().list(user!),
+    enabled: !!user,
+  });
+
+  const onSuccess = () => queryClient.invalidateQueries({ queryKey: ["shares"] });
+
+  const create = useMutation({
+    mutationFn: ({ chat, options }: { chat: ChatHistory; options: ShareOptions }) =>
+      getShareService().create(user!, chat, options),
+    onSuccess,
+  });
+
+  const update = useMutation({
+    mutationFn: ({ id, options }: { id: string; options: ShareOptions }) => getShareService().update(user!, id, options),
+    onSuccess,
+  });
+
+  const revoke = useMutation({
+    mutationFn: (id: string) => getShareService().revoke(user!, id),
+    onSuccess,
+  });
+
+  return {
+    shares,
+    isLoading,
+    createShare: create.mutateAsync,
+    updateShare: update.mutateAsync,
+    revokeShare: revoke.mutateAsync,
+  };
+}
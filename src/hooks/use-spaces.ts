@@ -0,0 +1,57 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useSession } from "@/hooks/use-session";
+import { getMemberships, getSpaceService, type SpaceDraft } from "@/lib/spaces";
+
+// The signed-in user's spaces. Their memberships are copied onto the session user, so a space
+// joined or created here shows up in `user.memberships` without signing in again.
+export function useSpaces() {
+  const queryClient = useQueryClient();
+  const { user, updateUser } = useSession();
+  const queryKey = ["spaces", user?.username];
+
+  const { data: spaces, isLoading } = useQuery({
+    queryKey,
+    queryFn: () => getSpaceService().list(user!),
+    enabled: !!user,
+  });
+
+  const username = user?.username;
+  const currentMemberships = JSON.stringify(user?.memberships ?? []);
+  useEffect(() => {
+    if (!username || !spaces) return;
+    const memberships = getMemberships(username, spaces);
+    if (JSON.stringify(memberships) !== currentMemberships) updateUser({ memberships });
+  }, [username, spaces, currentMemberships, updateUser]);
+
+  const onSuccess = () => queryClient.invalidateQueries({ queryKey: ["spaces"] });
+
+  const create = useMutation({
+    mutationFn: (draft: SpaceDraft) => getSpaceService().create(user!, draft),
+    onSuccess,
+  });
+
+  const update = useMutation({
+    mutationFn: ({ id, draft }: { id: string; draft: SpaceDraft }) => getSpaceService().update(user!, id, draft),
+    onSuccess,
+  });
+
+  const join = useMutation({
+    mutationFn: (joinCode: string) => getSpaceService().join(user!, joinCode),
+    onSuccess,
+  });
+
+  const leave = useMutation({
+    mutationFn: (id: string) => getSpaceService().leave(user!, id),
+    onSuccess,
+  });
+
+  return {
+    spaces: spaces ?? [],
+    isLoading,
+    createSpace: create.mutateAsync,
+    updateSpace: update.mutateAsync,
+    joinSpace: join.mutateAsync,
+    leaveSpace: leave.mutateAsync,
+  };
+}
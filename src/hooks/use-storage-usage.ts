@@ -0,0 +1,11 @@
+import { useQuery } from "@tanstack/react-query";
+import { getStorageUsage } from "@/lib/history";
+
+// Refreshed whenever a chat is saved or deleted.
+export function useStorageUsage() {
+  const { data = null } = useQuery({
+    queryKey: ["storage-usage"],
+    queryFn: getStorageUsage,
+  });
+  return data;
+}
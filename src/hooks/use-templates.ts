@@ -0,0 +1,33 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { getTemplateService, type PromptTemplate } from "@/lib/templates";
+import type { UserData } from "@/types/chat";
+
+export function useTemplates(user: UserData | null) {
+  const queryClient = useQueryClient();
+  const queryKey = ["templates", user?.username];
+
+  const { data: templates = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: () => getTemplateService().list(user!),
+    enabled: !!user,
+  });
+
+  const onSuccess = () => queryClient.invalidateQueries({ queryKey: ["templates"] });
+
+  const save = useMutation({
+    mutationFn: (template: PromptTemplate) => getTemplateService().save(user!, template),
+    onSuccess,
+  });
+
+  const remove = useMutation({
+    mutationFn: (id: string) => getTemplateService().remove(user!, id),
+    onSuccess,
+  });
+
+  return {
+    templates,
+    isLoading,
+    saveTemplate: save.mutateAsync,
+    removeTemplate: remove.mutateAsync,
+  };
+}
@@ -0,0 +1,108 @@
+import { apiClient } from "@/lib/api-client";
+import { isApiConfigured } from "@/lib/api";
+import { getDayKey, mockUsageStore } from "@/lib/quota";
+
+export interface AdminUser {
+  username: string;
+  role: string;
+  usedToday: number;
+  // `null` means the user has no daily limit.
+  dailyLimit: number | null;
+  lastSeenAt: Date;
+}
+
+export interface UsagePoint {
+  date: string;
+  questions: number;
+}
+
+export interface AdminService {
+  listUsers: () => Promise<AdminUser[]>;
+  // Questions asked per day over the last `days` days, oldest first.
+  getUsage: (days: number) => Promise<UsagePoint[]>;
+  setRole: (username: string, role: string) => Promise<void>;
+  resetUsage: (username: string) => Promise<void>;
+  grantQuota: (username: string, amount: number) => Promise<void>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const recentDayKeys = (days: number, now: Date) => {
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return Array.from({ length: days }, (_, i) => getDayKey(new Date(now.getTime() - (days - 1 - i) * DAY_MS), timeZone));
+};
+
+// Works over the users the mock quota service has seen in this browser.
+export const createMockAdminService = (): AdminService => {
+  const findUser = (username: string) => {
+    const user = mockUsageStore.getKnownUsers().find((known) => known.username === username);
+    if (!user) throw new Error(`Unknown user "${username}"`);
+    return user;
+  };
+
+  return {
+    listUsers: async () => {
+      const now = new Date();
+      return mockUsageStore.getKnownUsers().map((user) => {
+        const usage = mockUsageStore.read(user.username, user.timeZone, now);
+        const { day } = mockUsageStore.toStatus(user.role, user.timeZone, usage, now);
+        return {
+          username: user.username,
+          role: user.role,
+          usedToday: day.used,
+          dailyLimit: day.limit,
+          lastSeenAt: new Date(user.lastSeenAt),
+        };
+      });
+    },
+
+    getUsage: async (days) => {
+      const now = new Date();
+      const totals = new Map(recentDayKeys(days, now).map((date) => [date, 0]));
+      for (const user of mockUsageStore.getKnownUsers()) {
+        const { history } = mockUsageStore.read(user.username, user.timeZone, now);
+        for (const [date, questions] of Object.entries(history)) {
+          if (totals.has(date)) totals.set(date, totals.get(date)! + questions);
+        }
+      }
+      return Array.from(totals, ([date, questions]) => ({ date, questions }));
+    },
+
+    setRole: async (username, role) => {
+      mockUsageStore.saveKnownUser({ ...findUser(username), role });
+    },
+
+    resetUsage: async (username) => {
+      const { timeZone } = findUser(username);
+      await mockUsageStore.update(username, timeZone, (usage) => ({ ...usage, dayUsed: 0, recent: [] }));
+    },
+
+    grantQuota: async (username, amount) => {
+      const { timeZone } = findUser(username);
+      await mockUsageStore.update(username, timeZone, (usage) => ({ ...usage, dayBonus: usage.dayBonus + amount }));
+    },
+  };
+};
+
+export const createHttpAdminService = (): AdminService => ({
+  listUsers: () => apiClient.admin.listUsers(),
+  getUsage: (days) => apiClient.admin.getUsage(days),
+  setRole: async (username, role) => {
+    await apiClient.admin.setRole(username, role);
+  },
+  resetUsage: async (username) => {
+    await apiClient.admin.resetUsage(username);
+  },
+  grantQuota: async (username, amount) => {
+    await apiClient.admin.grantQuota(username, amount);
+  },
+});
+
+let adminService: AdminService | null = null;
+
+export const getAdminService = (): AdminService => {
+  if (adminService) return adminService;
+
+  adminService = isApiConfigured() ? createHttpAdminService() : createMockAdminService();
+  return adminService;
+};
@@ -0,0 +1,214 @@
+import { z } from "zod";
+import { authFetch } from "@/lib/http";
+import {
+  ApiError,
+  NETWORK_ERROR_STATUS,
+  adminUserSchema,
+  apiUrl,
+  authResponseSchema,
+  chatHistorySchema,
+  chatOrganizerSchema,
+  chatRequestSchema,
+  chatResponseSchema,
+  errorResponseSchema,
+  isAbortError,
+  loginRequestSchema,
+  promptTemplateSchema,
+  quotaStatusSchema,
+  sharedChatSchema,
+  signupRequestSchema,
+  spaceSchema,
+  usagePointSchema,
+  type AuthResponse,
+  type ChatRequest,
+  type LoginRequest,
+  type SignupRequest,
+} from "@/lib/api";
+import type { AdminUser, UsagePoint } from "@/lib/admin";
+import type { ChatOrganizer } from "@/lib/organizer";
+import type { QuotaStatus } from "@/lib/quota";
+import type { ShareOptions, SharedChat } from "@/lib/shares";
+import type { Space, SpaceDraft } from "@/lib/spaces";
+import type { PromptTemplate } from "@/lib/templates";
+import type { ChatHistory } from "@/types/chat";
+
+interface RequestOptions {
+  method?: string;
+  body?: unknown;
+  // Outgoing bodies are checked too, so a malformed request never reaches the server.
+  bodySchema?: z.ZodTypeAny;
+  headers?: Record<string, string>;
+  // Public endpoints (login, signup) skip the access token and 401 handling.
+  auth?: boolean;
+  signal?: AbortSignal;
+}
+
+const toApiError = async (response: Response) => {
+  const data = await response.json().catch(() => null);
+  const parsed = errorResponseSchema.safeParse(data);
+  const body = parsed.success ? parsed.data : {};
+  return new ApiError(body.message || `Server responded with ${response.status}`, response.status, body.code, data);
+};
+
+// Sends a request and returns the raw response, throwing ApiError for anything but 2xx.
+export const apiRequest = async (
+  path: string,
+  { method = "GET", body, bodySchema, headers = {}, auth = true, signal }: RequestOptions = {},
+) => {
+  if (bodySchema) {
+    const result = bodySchema.safeParse(body);
+    if (!result.success) {
+      throw new ApiError("The request was not valid", NETWORK_ERROR_STATUS, "invalid_request", result.error.flatten());
+    }
+  }
+
+  let response: Response;
+  try {
+    response = await (auth ? authFetch : fetch)(apiUrl(path), {
+      method,
+      headers: {
+        ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+        ...headers,
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      signal,
+    });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new ApiError("Failed to connect to server", NETWORK_ERROR_STATUS, "network_error");
+  }
+
+  if (!response.ok) throw await toApiError(response);
+  return response;
+};
+
+// Sends a request and validates the JSON response against `schema`. Callers name the result
+// type, since zod's inferred types go all-optional without strictNullChecks.
+export const apiJson = async <T = unknown>(
+  path: string,
+  schema: z.ZodTypeAny,
+  options?: RequestOptions,
+): Promise<T> => {
+  const response = await apiRequest(path, options);
+  const data = response.status === 204 ? undefined : await response.json().catch(() => undefined);
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new ApiError("Server returned an unexpected response", response.status, "invalid_response", data);
+  }
+  return result.data;
+};
+
+const noContent = z.unknown();
+
+const quotaHeaders = (timeZone: string, spaceId?: string): Record<string, string> => ({
+  "X-Time-Zone": timeZone,
+  ...(spaceId ? { "X-Space-Id": spaceId } : {}),
+});
+
+const userPath = (username: string) => `/admin/users/${encodeURIComponent(username)}`;
+
+export const apiClient = {
+  auth: {
+    login: (body: LoginRequest) =>
+      apiJson<AuthResponse>("/auth/login", authResponseSchema, { method: "POST", body, bodySchema: loginRequestSchema, auth: false }),
+
+    signup: (body: SignupRequest) =>
+      apiJson<AuthResponse>("/auth/signup", authResponseSchema, { method: "POST", body, bodySchema: signupRequestSchema, auth: false }),
+  },
+
+  chat: {
+    send: (body: ChatRequest, { url = "/chat", signal }: { url?: string; signal?: AbortSignal } = {}) =>
+      apiJson<{ content: string }>(url, chatResponseSchema, { method: "POST", body, bodySchema: chatRequestSchema, signal }),
+
+    // Streamed replies can't be validated up front; the caller reads the body as it arrives.
+    stream: (body: ChatRequest, { url = "/chat", signal }: { url?: string; signal?: AbortSignal } = {}) =>
+      apiRequest(url, {
+        method: "POST",
+        body: { ...body, stream: true },
+        bodySchema: chatRequestSchema,
+        headers: { Accept: "text/event-stream, text/plain" },
+        signal,
+      }),
+  },
+
+  quota: {
+    get: (timeZone: string, spaceId?: string) =>
+      apiJson<QuotaStatus>("/quota", quotaStatusSchema, { headers: quotaHeaders(timeZone, spaceId) }),
+
+    consume: (timeZone: string, spaceId?: string) =>
+      apiJson<QuotaStatus>("/quota/consume", quotaStatusSchema, { method: "POST", headers: quotaHeaders(timeZone, spaceId) }),
+  },
+
+  history: {
+    list: () => apiJson<ChatHistory[]>("/history", z.array(chatHistorySchema)),
+
+    get: (id: string) => apiJson<ChatHistory>(`/history/${encodeURIComponent(id)}`, chatHistorySchema),
+
+    save: (chat: ChatHistory) =>
+      apiJson<ChatHistory>(`/history/${encodeURIComponent(chat.id)}`, chatHistorySchema, { method: "PUT", body: chat }),
+
+    remove: (id: string) => apiJson(`/history/${encodeURIComponent(id)}`, noContent, { method: "DELETE" }),
+  },
+
+  organizer: {
+    get: () => apiJson<ChatOrganizer>("/organizer", chatOrganizerSchema),
+
+    save: (organizer: ChatOrganizer) =>
+      apiJson<ChatOrganizer>("/organizer", chatOrganizerSchema, { method: "PUT", body: organizer }),
+  },
+
+  admin: {
+    listUsers: () => apiJson<AdminUser[]>("/admin/users", z.array(adminUserSchema)),
+
+    getUsage: (days: number) => apiJson<UsagePoint[]>(`/admin/usage?days=${days}`, z.array(usagePointSchema)),
+
+    setRole: (username: string, role: string) =>
+      apiJson(userPath(username), noContent, { method: "PATCH", body: { role } }),
+
+    resetUsage: (username: string) => apiJson(`${userPath(username)}/reset`, noContent, { method: "POST" }),
+
+    grantQuota: (username: string, amount: number) =>
+      apiJson(`${userPath(username)}/grant`, noContent, { method: "POST", body: { amount } }),
+  },
+
+  templates: {
+    list: () => apiJson<PromptTemplate[]>("/templates", z.array(promptTemplateSchema)),
+
+    save: (template: PromptTemplate) =>
+      apiJson<PromptTemplate>(`/templates/${encodeURIComponent(template.id)}`, promptTemplateSchema, {
+        method: "PUT",
+        body: template,
+      }),
+
+    remove: (id: string) => apiJson(`/templates/${encodeURIComponent(id)}`, noContent, { method: "DELETE" }),
+  },
+
+  shares: {
+    list: () => apiJson<SharedChat[]>("/shares", z.array(sharedChatSchema)),
+
+    // Public: anyone with the link can read a share, signed in or not.
+    get: (id: string) =>
+      apiJson<SharedChat>(`/shares/${encodeURIComponent(id)}`, sharedChatSchema, { auth: false }),
+
+    create: (snapshot: Pick<SharedChat, "chatId" | "title" | "messages"> & ShareOptions) =>
+      apiJson<SharedChat>("/shares", sharedChatSchema, { method: "POST", body: snapshot }),
+
+    update: (id: string, options: ShareOptions) =>
+      apiJson<SharedChat>(`/shares/${encodeURIComponent(id)}`, sharedChatSchema, { method: "PATCH", body: options }),
+
+    revoke: (id: string) => apiJson(`/shares/${encodeURIComponent(id)}`, noContent, { method: "DELETE" }),
+  },
+
+  spaces: {
+    list: () => apiJson<Space[]>("/spaces", z.array(spaceSchema)),
+
+    create: (draft: SpaceDraft) => apiJson<Space>("/spaces", spaceSchema, { method: "POST", body: draft }),
+
+    update: (id: string, draft: SpaceDraft) =>
+      apiJson<Space>(`/spaces/${encodeURIComponent(id)}`, spaceSchema, { method: "PATCH", body: draft }),
+
+    join: (joinCode: string) => apiJson<Space>("/spaces/join", spaceSchema, { method: "POST", body: { joinCode } }),
+
+    leave: (id: string) => apiJson(`/spaces/${encodeURIComponent(id)}/leave`, noContent, { method: "POST" }),
+  },
+};
@@ -0,0 +1,258 @@
+import { z } from "zod";
+import { isSafeAttachmentData } from "@/lib/attachments";
+import type { UserData } from "@/types/chat";
+
+// Empty means "no backend configured": services fall back to their local mocks.
+export const API_BASE_URL = (import.meta.env.VITE_API_BASE_URL ?? "").replace(/\/+$/, "");
+
+export const isApiConfigured = () => API_BASE_URL !== "";
+
+// Absolute URLs pass through, so individual services can still point elsewhere.
+export const apiUrl = (path: string) => (/^https?:\/\//.test(path) ? path : `${API_BASE_URL}${path}`);
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code?: string;
+  readonly data?: unknown;
+
+  constructor(message: string, status: number, code?: string, data?: unknown) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = code;
+    this.data = data;
+  }
+}
+
+// Status 0 marks failures that never got a response.
+export const NETWORK_ERROR_STATUS = 0;
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === "AbortError";
+
+// The message to show in a toast for any error thrown by the API layer.
+export const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error && error.message ? error.message : fallback;
+
+export const dateSchema = z.string().transform((value, ctx) => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid date" });
+    return z.NEVER;
+  }
+  return date;
+});
+
+export const errorResponseSchema = z.object({
+  message: z.string().optional(),
+  code: z.string().optional(),
+});
+
+// Auth
+
+export const loginRequestSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1),
+});
+
+export const signupRequestSchema = loginRequestSchema.extend({
+  role: z.string().min(1),
+});
+
+export const profileSchema = z.object({
+  username: z.string().optional(),
+  role: z.string().optional(),
+  timeZone: z.string().optional(),
+  memberships: z.array(z.object({ spaceId: z.string(), role: z.enum(["owner", "member"]) })).optional(),
+});
+
+export const authResponseSchema = z.object({
+  token: z.string(),
+  refreshToken: z.string().optional(),
+  user: profileSchema.optional(),
+});
+
+export const refreshResponseSchema = z.object({
+  token: z.string(),
+  refreshToken: z.string().optional(),
+});
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+export interface SignupRequest extends LoginRequest {
+  role: string;
+}
+
+export interface AuthResponse {
+  token: string;
+  refreshToken?: string;
+  user?: Partial<UserData>;
+}
+
+// Chat
+
+export const chatContentPartSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("text"), text: z.string() }),
+  z.object({ type: z.literal("image"), mimeType: z.string(), data: z.string(), name: z.string() }),
+  z.object({ type: z.literal("file"), mimeType: z.string(), data: z.string(), name: z.string() }),
+]);
+
+export const chatMessageSchema = z.object({
+  role: z.enum(["system", "user", "assistant"]),
+  content: z.union([z.string(), z.array(chatContentPartSchema)]),
+});
+
+export const chatRequestSchema = z.object({
+  messages: z.array(chatMessageSchema),
+  model: z.string().optional(),
+  temperature: z.number().optional(),
+  maxTokens: z.number().int().optional(),
+  stream: z.boolean().optional(),
+});
+
+export const chatResponseSchema = z.union([
+  z.object({ content: z.string() }),
+  z.object({ reply: z.string() }).transform(({ reply }) => ({ content: reply })),
+]);
+
+export type ChatContentPart =
+  | { type: "text"; text: string }
+  | { type: "image" | "file"; mimeType: string; data: string; name: string };
+
+export interface ChatRequest {
+  messages: { role: "system" | "user" | "assistant"; content: string | ChatContentPart[] }[];
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  stream?: boolean;
+}
+
+// Quota
+
+export const quotaWindowSchema = z.object({
+  used: z.number(),
+  limit: z.number().nullable(),
+  resetsAt: dateSchema,
+});
+
+export const quotaStatusSchema = z.object({
+  hour: quotaWindowSchema,
+  day: quotaWindowSchema,
+  month: quotaWindowSchema,
+  pool: quotaWindowSchema.optional(),
+});
+
+// History
+
+export const attachmentSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    mimeType: z.string(),
+    size: z.number(),
+    kind: z.enum(["image", "pdf", "text"]),
+    data: z.string(),
+  })
+  .refine(isSafeAttachmentData, { message: "Attachment data must be a PNG, JPEG, GIF, WebP or PDF data URL", path: ["data"] });
+
+export const messageSchema = z.object({
+  id: z.string(),
+  content: z.string(),
+  isBot: z.boolean(),
+  timestamp: dateSchema,
+  interrupted: z.boolean().optional(),
+  parentId: z.string().nullable().optional(),
+  attachments: z.array(attachmentSchema).optional(),
+});
+
+export const MAX_TOKENS_LIMIT = 32000;
+
+export const chatSettingsSchema = z.object({
+  systemPrompt: z.string().optional(),
+  model: z.string().optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().min(1).max(MAX_TOKENS_LIMIT).optional(),
+});
+
+export const chatHistorySchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  messages: z.array(messageSchema),
+  createdAt: dateSchema,
+  updatedAt: dateSchema,
+  currentLeafId: z.string().optional(),
+  settings: chatSettingsSchema.optional(),
+  titleLocked: z.boolean().optional(),
+  pinned: z.boolean().optional(),
+  archived: z.boolean().optional(),
+  spaceId: z.string().optional(),
+  folderId: z.string().optional(),
+  tagIds: z.array(z.string()).optional(),
+});
+
+// Admin
+
+export const adminUserSchema = z.object({
+  username: z.string(),
+  role: z.string(),
+  usedToday: z.number(),
+  dailyLimit: z.number().nullable(),
+  lastSeenAt: dateSchema,
+});
+
+export const usagePointSchema = z.object({
+  date: z.string(),
+  questions: z.number(),
+});
+
+// Templates
+
+export const promptTemplateSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  body: z.string(),
+  tags: z.array(z.string()),
+  author: z.string(),
+  published: z.boolean(),
+  createdAt: dateSchema,
+  updatedAt: dateSchema,
+});
+
+// Shares
+
+export const sharedChatSchema = z.object({
+  id: z.string(),
+  chatId: z.string(),
+  title: z.string(),
+  // Attachments are checked one by one where they're shown, so a bad one doesn't hide the whole chat.
+  messages: z.array(messageSchema.extend({ attachments: z.array(z.unknown()).optional() })),
+  owner: z.string().optional(),
+  redactOwner: z.boolean(),
+  createdAt: dateSchema,
+  expiresAt: dateSchema.nullable(),
+});
+
+// Spaces
+
+export const spaceSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  joinCode: z.string(),
+  owners: z.array(z.string()),
+  members: z.array(z.string()),
+  defaultSystemPrompt: z.string().optional(),
+  dailyQuestionPool: z.number().int().min(1).nullable(),
+  folders: z.array(z.object({ id: z.string(), name: z.string() })),
+  createdAt: dateSchema,
+});
+
+// Folders and tags
+
+export const chatOrganizerSchema = z.object({
+  folders: z.array(z.object({ id: z.string(), name: z.string() })),
+  tags: z.array(z.object({ id: z.string(), name: z.string(), color: z.string() })),
+});
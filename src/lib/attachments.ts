@@ -0,0 +1,79 @@
+import type { Attachment, AttachmentKind } from "@/types/chat";
+
+// Attachments are stored with the chat, so limits stay small enough for browser storage.
+export const MAX_ATTACHMENTS = 4;
+
+export const MAX_ATTACHMENT_BYTES: Record<AttachmentKind, number> = {
+  image: 2 * 1024 * 1024,
+  pdf: 2 * 1024 * 1024,
+  text: 256 * 1024,
+};
+
+const IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+// Browsers often report no type for source files, so text is also recognised by extension.
+const TEXT_EXTENSIONS = ["txt", "md", "csv", "json", "xml", "yaml", "yml", "html", "css", "js", "ts", "tsx", "jsx", "py", "java", "c", "cpp", "h", "rs", "go", "rb", "sh", "sql", "tex"];
+
+export const ATTACHMENT_ACCEPT = [...IMAGE_TYPES, "application/pdf", "text/*", ...TEXT_EXTENSIONS.map((ext) => `.${ext}`)].join(",");
+
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AttachmentError";
+  }
+}
+
+export const getAttachmentKind = (file: File): AttachmentKind | null => {
+  if (IMAGE_TYPES.includes(file.type)) return "image";
+  if (file.type === "application/pdf") return "pdf";
+  const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+  if (file.type.startsWith("text/") || TEXT_EXTENSIONS.includes(extension)) return "text";
+  return null;
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+const readFile = (file: File, as: "dataUrl" | "text") =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new AttachmentError(`Couldn't read ${file.name}`));
+    if (as === "dataUrl") reader.readAsDataURL(file);
+    else reader.readAsText(file);
+  });
+
+// Validates the file and reads it: images and PDFs as data URLs, text files as text.
+export const readAttachment = async (file: File): Promise<Attachment> => {
+  const kind = getAttachmentKind(file);
+  if (!kind) throw new AttachmentError(`${file.name}: only images, PDFs and text files can be attached`);
+  if (file.size > MAX_ATTACHMENT_BYTES[kind]) {
+    throw new AttachmentError(`${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES[kind])}`);
+  }
+
+  return {
+    id: `attachment-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+    name: file.name,
+    mimeType: file.type || "text/plain",
+    size: file.size,
+    kind,
+    data: await readFile(file, kind === "text" ? "text" : "dataUrl"),
+  };
+};
+
+// Image and PDF data is used as a URL as is, so anything stored or imported must be a data URL
+// of an accepted type; a `javascript:` URL, say, would run in the app.
+const SAFE_DATA_URL = /^data:(image\/(png|jpeg|gif|webp)|application\/pdf);base64,/;
+
+export const isSafeAttachmentData = ({ kind, data }: Pick<Attachment, "kind" | "data">) =>
+  kind === "text" || SAFE_DATA_URL.test(data);
+
+// A URL to open or download the attachment from, or null when its data isn't safe to link to.
+export const getAttachmentUrl = (attachment: Attachment) => {
+  if (attachment.kind === "text") return `data:text/plain;charset=utf-8,${encodeURIComponent(attachment.data)}`;
+  return isSafeAttachmentData(attachment) ? attachment.data : null;
+};
@@ -1,10 +1,48 @@
 import Cookies from 'js-cookie';
+import { apiUrl, isApiConfigured, refreshResponseSchema } from '@/lib/api';
+import type { SpaceMembership, UserData } from '@/types/chat';
 
 const TOKEN_KEY = 'auth_token';
+const REFRESH_TOKEN_KEY = 'refresh_token';
+const PROFILE_KEY = 'user';
+const DEFAULT_TOKEN_DAYS = 7;
+// Treat tokens this close to expiry as expired, so requests don't race the deadline.
+const EXPIRY_SKEW_MS = 30 * 1000;
+
+export type AuthEvent =
+  | { type: 'refreshed'; token: string }
+  | { type: 'expired' };
+
+type AuthListener = (event: AuthEvent) => void;
+
+const listeners = new Set<AuthListener>();
+let pendingRefresh: Promise<string | null> | null = null;
+
+// Claims we understand in the token payload; backends differ on naming.
+interface TokenClaims {
+  sub?: string;
+  username?: string;
+  name?: string;
+  email?: string;
+  role?: string;
+  zoneinfo?: string;
+  memberships?: SpaceMembership[];
+  exp?: number;
+}
+
+const decodeBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+  return decodeURIComponent(
+    Array.from(atob(padded), (char) => '%' + char.charCodeAt(0).toString(16).padStart(2, '0')).join('')
+  );
+};
 
 export const authService = {
   setToken: (token: string) => {
-    Cookies.set(TOKEN_KEY, token, { expires: 7 }); // 7 days
+    // The cookie lives as long as the JWT does; opaque tokens get 7 days.
+    const expires = authService.getTokenExpiry(token) ?? DEFAULT_TOKEN_DAYS;
+    Cookies.set(TOKEN_KEY, token, { expires });
   },
 
   getToken: () => {
@@ -13,9 +51,116 @@ export const authService = {
 
   removeToken: () => {
     Cookies.remove(TOKEN_KEY);
+    Cookies.remove(REFRESH_TOKEN_KEY);
   },
 
   isAuthenticated: () => {
-    return !!Cookies.get(TOKEN_KEY);
-  }
+    const token = Cookies.get(TOKEN_KEY);
+    return !!token && !authService.isTokenExpired(token);
+  },
+
+  setRefreshToken: (refreshToken: string) => {
+    Cookies.set(REFRESH_TOKEN_KEY, refreshToken, { expires: 30 });
+  },
+
+  getRefreshToken: () => {
+    return Cookies.get(REFRESH_TOKEN_KEY);
+  },
+
+  getTokenExpiry: (token: string): Date | null => {
+    const exp = authService.decodeToken(token)?.exp;
+    return typeof exp === 'number' ? new Date(exp * 1000) : null;
+  },
+
+  isTokenExpired: (token: string, now = Date.now()) => {
+    const expiry = authService.getTokenExpiry(token);
+    return !!expiry && expiry.getTime() - EXPIRY_SKEW_MS <= now;
+  },
+
+  subscribe: (listener: AuthListener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  // Trades the refresh token for a new access token. Concurrent callers share one request;
+  // resolves to `null` when there is nothing to refresh with or the server refuses.
+  refresh: (): Promise<string | null> => {
+    if (!isApiConfigured()) return Promise.resolve(null);
+
+    // Plain fetch on purpose: going through authFetch would recurse into refresh on a 401.
+    pendingRefresh ??= (async () => {
+      try {
+        const response = await fetch(apiUrl('/auth/refresh'), {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({ refreshToken: authService.getRefreshToken() }),
+        });
+        const parsed = refreshResponseSchema.safeParse(await response.json().catch(() => null));
+        if (!response.ok || !parsed.success) return null;
+
+        const { token, refreshToken } = parsed.data;
+        authService.setToken(token);
+        if (refreshToken) authService.setRefreshToken(refreshToken);
+        listeners.forEach((listener) => listener({ type: 'refreshed', token }));
+        return token;
+      } catch {
+        return null;
+      } finally {
+        pendingRefresh = null;
+      }
+    })();
+    return pendingRefresh;
+  },
+
+  // Drops the session and tells the app, which signs the user out with a notice.
+  expireSession: () => {
+    authService.removeToken();
+    authService.removeStoredProfile();
+    listeners.forEach((listener) => listener({ type: 'expired' }));
+  },
+
+  // Reads the payload of a JWT without verifying it; the backend stays the authority.
+  decodeToken: (token: string): TokenClaims | null => {
+    const [, payload] = token.split('.');
+    if (!payload) return null;
+    try {
+      return JSON.parse(decodeBase64Url(payload));
+    } catch {
+      return null;
+    }
+  },
+
+  profileFromToken: (token: string): Partial<UserData> => {
+    const claims = authService.decodeToken(token);
+    if (!claims) return {};
+
+    const username = claims.username ?? claims.name ?? claims.email ?? claims.sub;
+    return {
+      ...(username ? { username } : {}),
+      ...(claims.role ? { role: claims.role } : {}),
+      ...(claims.zoneinfo ? { timeZone: claims.zoneinfo } : {}),
+      ...(Array.isArray(claims.memberships) ? { memberships: claims.memberships } : {}),
+    };
+  },
+
+  getStoredProfile: (): Partial<UserData> | null => {
+    const stored = localStorage.getItem(PROFILE_KEY);
+    if (!stored) return null;
+    try {
+      return JSON.parse(stored);
+    } catch {
+      return null;
+    }
+  },
+
+  setStoredProfile: (profile: UserData) => {
+    localStorage.setItem(PROFILE_KEY, JSON.stringify(profile));
+  },
+
+  removeStoredProfile: () => {
+    localStorage.removeItem(PROFILE_KEY);
+  },
 };
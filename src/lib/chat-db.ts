@@ -0,0 +1,158 @@
+import { toStorageError } from "@/lib/storage";
+import type { ChatHistory, Message } from "@/types/chat";
+
+// IndexedDB layout. Conversations and their messages live in separate stores so a long chat can
+// be read a page at a time. Both are keyed by owner first, since several users may share a browser.
+const DB_NAME = "chatbot";
+const DB_VERSION = 1;
+const CONVERSATIONS = "conversations";
+const MESSAGES = "messages";
+
+// A chat without its messages.
+type StoredConversation = Omit<ChatHistory, "messages" | "olderMessageCount"> & { owner: string };
+
+// `position` is the message's index in the chat's full message list.
+type StoredMessage = Message & { owner: string; chatId: string; position: number };
+
+// Upgrades from each older database version, in order; add a step when bumping DB_VERSION.
+const upgrades: ((db: IDBDatabase) => void)[] = [
+  (db) => {
+    db.createObjectStore(CONVERSATIONS, { keyPath: ["owner", "id"] });
+    db.createObjectStore(MESSAGES, { keyPath: ["owner", "chatId", "position"] });
+  },
+];
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(toStorageError(req.error));
+  });
+
+const completion = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(toStorageError(tx.error));
+    tx.onabort = () => reject(toStorageError(tx.error ?? new Error("The storage transaction was aborted")));
+  });
+
+let connection: Promise<IDBDatabase> | null = null;
+
+// Rejects where IndexedDB is missing or blocked, e.g. in some private browsing modes.
+export const openChatDb = () => {
+  if (!connection) {
+    connection = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const open = indexedDB.open(DB_NAME, DB_VERSION);
+      open.onupgradeneeded = (event) => {
+        upgrades.slice(event.oldVersion, DB_VERSION).forEach((upgrade) => upgrade(open.result));
+      };
+      open.onsuccess = () => {
+        // Another tab is upgrading the database: let it, and reconnect on the next call.
+        open.result.onversionchange = () => {
+          open.result.close();
+          connection = null;
+        };
+        resolve(open.result);
+      };
+      open.onerror = () => reject(open.error);
+      open.onblocked = () => reject(new Error("The chat database is open in an older version of the app"));
+    });
+  }
+  return connection;
+};
+
+const chatRange = (owner: string, chatId: string, from = 0, to = Infinity) =>
+  IDBKeyRange.bound([owner, chatId, from], [owner, chatId, to]);
+
+// Every key for `owner`: arrays sort after strings, so [owner, []] is past any chat id.
+const ownerRange = (owner: string) => IDBKeyRange.bound([owner], [owner, []]);
+
+const toMessage = ({ owner: _owner, chatId: _chatId, position: _position, ...message }: StoredMessage): Message => message;
+
+// Reads messages `from` up to (not including) `to`, oldest first.
+const readMessages = async (store: IDBObjectStore, owner: string, chatId: string, from: number, to: number) => {
+  if (to <= from) return [];
+  const stored: StoredMessage[] = await request(store.getAll(chatRange(owner, chatId, from, to - 1)));
+  return stored.map(toMessage);
+};
+
+const readChat = async (messages: IDBObjectStore, conversation: StoredConversation, pageSize: number): Promise<ChatHistory> => {
+  const { owner: _owner, ...chat } = conversation;
+  const total = await request(messages.count(chatRange(conversation.owner, chat.id)));
+  const from = Math.max(0, total - pageSize);
+  return {
+    ...chat,
+    messages: await readMessages(messages, conversation.owner, chat.id, from, total),
+    olderMessageCount: from,
+  };
+};
+
+// All of `owner`'s chats with their newest `pageSize` messages; pass Infinity for everything.
+export const listChats = async (owner: string, pageSize: number): Promise<ChatHistory[]> => {
+  const db = await openChatDb();
+  const tx = db.transaction([CONVERSATIONS, MESSAGES], "readonly");
+  const messages = tx.objectStore(MESSAGES);
+  const stored: StoredConversation[] = await request(tx.objectStore(CONVERSATIONS).getAll(ownerRange(owner)));
+  return Promise.all(stored.map((conversation) => readChat(messages, conversation, pageSize)));
+};
+
+// The page of up to `pageSize` messages just before the ones `chat` has loaded.
+export const readOlderMessages = async (owner: string, chat: ChatHistory, pageSize: number): Promise<ChatHistory> => {
+  const older = chat.olderMessageCount ?? 0;
+  if (older === 0) return chat;
+  const db = await openChatDb();
+  const tx = db.transaction(MESSAGES, "readonly");
+  const from = Math.max(0, older - pageSize);
+  const page = await readMessages(tx.objectStore(MESSAGES), owner, chat.id, from, older);
+  return { ...chat, messages: [...page, ...chat.messages], olderMessageCount: from };
+};
+
+const putChat = (conversations: IDBObjectStore, messages: IDBObjectStore, owner: string, chat: ChatHistory) => {
+  const { messages: chatMessages, olderMessageCount, ...conversation } = chat;
+  // Messages before the loaded ones are left alone; everything after them is rewritten.
+  const offset = olderMessageCount ?? 0;
+  conversations.put({ ...conversation, owner });
+  messages.delete(chatRange(owner, chat.id, offset + chatMessages.length));
+  chatMessages.forEach((message, index) => messages.put({ ...message, owner, chatId: chat.id, position: offset + index }));
+};
+
+const deleteChat = (conversations: IDBObjectStore, messages: IDBObjectStore, owner: string, id: string) => {
+  conversations.delete([owner, id]);
+  messages.delete(chatRange(owner, id));
+};
+
+// Runs `change` in one read-write transaction; it must only queue requests, not await them.
+const write = async (change: (conversations: IDBObjectStore, messages: IDBObjectStore) => void) => {
+  const db = await openChatDb();
+  const tx = db.transaction([CONVERSATIONS, MESSAGES], "readwrite");
+  const done = completion(tx);
+  change(tx.objectStore(CONVERSATIONS), tx.objectStore(MESSAGES));
+  await done;
+};
+
+export const saveChats = (owner: string, chats: ChatHistory[]) =>
+  write((conversations, messages) => chats.forEach((chat) => putChat(conversations, messages, owner, chat)));
+
+export const removeChat = (owner: string, id: string) =>
+  write((conversations, messages) => deleteChat(conversations, messages, owner, id));
+
+// Makes `owner`'s history exactly `chats` (which must be complete), rewriting only chats whose
+// `updatedAt` changed.
+export const replaceChats = async (owner: string, chats: ChatHistory[]) => {
+  const db = await openChatDb();
+  const stored: StoredConversation[] = await request(
+    db.transaction(CONVERSATIONS, "readonly").objectStore(CONVERSATIONS).getAll(ownerRange(owner)),
+  );
+  const storedById = new Map(stored.map((conversation) => [conversation.id, conversation]));
+  const keep = new Set(chats.map((chat) => chat.id));
+
+  await write((conversations, messages) => {
+    stored.filter(({ id }) => !keep.has(id)).forEach(({ id }) => deleteChat(conversations, messages, owner, id));
+    chats
+      .filter((chat) => storedById.get(chat.id)?.updatedAt.getTime() !== chat.updatedAt.getTime())
+      .forEach((chat) => putChat(conversations, messages, owner, { ...chat, olderMessageCount: 0 }));
+  });
+};
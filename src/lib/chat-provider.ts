@@ -0,0 +1,236 @@
+import { apiClient } from "@/lib/api-client";
+import { ApiError, isApiConfigured, isAbortError, type ChatContentPart, type ChatRequest } from "@/lib/api";
+import type { Attachment, ChatSettings, Message } from "@/types/chat";
+
+export type ChatRole = "system" | "user" | "assistant";
+
+export type { ChatContentPart };
+
+// Plain text, or multimodal parts when the message has attachments.
+export interface ChatProviderMessage {
+  role: ChatRole;
+  content: string | ChatContentPart[];
+}
+
+export interface ChatRequestOptions {
+  signal?: AbortSignal;
+  settings?: ChatSettings;
+}
+
+export interface ChatStreamOptions extends ChatRequestOptions {
+  onChunk: (chunk: string) => void;
+}
+
+export interface ChatProvider {
+  readonly name: string;
+  sendMessage: (messages: ChatProviderMessage[], options?: ChatRequestOptions) => Promise<string>;
+  // Resolves with the full reply once the stream ends; rejects with an AbortError when cancelled.
+  streamMessage: (messages: ChatProviderMessage[], options: ChatStreamOptions) => Promise<string>;
+}
+
+export class ChatProviderError extends Error {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "ChatProviderError";
+    this.status = status;
+  }
+}
+
+// Text files go to the model inline; images and PDFs as base64 data URLs.
+const toContentPart = (attachment: Attachment): ChatContentPart =>
+  attachment.kind === "text"
+    ? { type: "text", text: `${attachment.name}:\n\n${attachment.data}` }
+    : { type: attachment.kind === "image" ? "image" : "file", mimeType: attachment.mimeType, data: attachment.data, name: attachment.name };
+
+export const toProviderMessages = (messages: Message[]): ChatProviderMessage[] =>
+  messages.map((message) => ({
+    role: message.isBot ? "assistant" : "user",
+    content: message.attachments?.length
+      ? [...(message.content ? [{ type: "text" as const, text: message.content }] : []), ...message.attachments.map(toContentPart)]
+      : message.content,
+  }));
+
+export const getTextContent = (content: ChatProviderMessage["content"]) =>
+  typeof content === "string"
+    ? content
+    : content.map((part) => (part.type === "text" ? part.text : "")).filter(Boolean).join("\n\n");
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Aborted", "AbortError"));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(new DOMException("Aborted", "AbortError"));
+    }, { once: true });
+  });
+
+interface MockProviderOptions {
+  delayMs?: number;
+  chunkDelayMs?: number;
+}
+
+const pickMockReply = (messages: ChatProviderMessage[]) => {
+  const lastUserMessage = getTextContent([...messages].reverse().find((m) => m.role === "user")?.content ?? "");
+  const responses = [
+    "I understand your question about: " + lastUserMessage.slice(0, 30) + "... Let me help you with that.",
+    "That's an interesting point! Here's what I think about " + lastUserMessage.slice(0, 20) + "...",
+    "Based on your question, I can provide some insights on this topic.",
+    "Thank you for asking! This is a great question that requires careful consideration.",
+    "I can help you with that. Let me break down the information for you."
+  ];
+  return responses[Math.floor(Math.random() * responses.length)];
+};
+
+// Canned replies for working on the UI without a model server.
+export const createMockProvider = ({ delayMs = 1500, chunkDelayMs = 60 }: MockProviderOptions = {}): ChatProvider => ({
+  name: "mock",
+
+  sendMessage: async (messages, options) => {
+    await wait(delayMs, options?.signal);
+    return pickMockReply(messages);
+  },
+
+  streamMessage: async (messages, options) => {
+    await wait(delayMs / 3, options.signal);
+
+    const chunks = pickMockReply(messages).match(/\S+\s*/g) ?? [];
+    let content = "";
+    for (const chunk of chunks) {
+      await wait(chunkDelayMs, options.signal);
+      content += chunk;
+      options.onChunk(chunk);
+    }
+    return content;
+  },
+});
+
+interface HttpProviderOptions {
+  // Path on the API base URL, or an absolute URL such as a local model server. Other hosts
+  // aren't sent the user's access token.
+  endpoint: string;
+}
+
+// Surfaces API failures as ChatProviderError so the page handles one error type per backend.
+const asProviderError = (error: unknown) => {
+  if (isAbortError(error) || error instanceof ChatProviderError) return error;
+  if (error instanceof ApiError) return new ChatProviderError(error.message, error.status || undefined);
+  return new ChatProviderError("Failed to get a response from the chat server");
+};
+
+// An SSE `data:` payload is either `{ "content": "..." }` or raw text; `[DONE]` ends the stream.
+const parseEventData = (data: string): string | null => {
+  if (data === "[DONE]") return null;
+  try {
+    const parsed = JSON.parse(data);
+    return typeof parsed?.content === "string" ? parsed.content : "";
+  } catch {
+    return data;
+  }
+};
+
+// The chat's system prompt goes first as a system message; unset options are left to the server.
+const toChatRequest = (messages: ChatProviderMessage[], settings: ChatSettings = {}): ChatRequest => ({
+  messages: settings.systemPrompt ? [{ role: "system", content: settings.systemPrompt }, ...messages] : messages,
+  ...(settings.model ? { model: settings.model } : {}),
+  ...(settings.temperature !== undefined ? { temperature: settings.temperature } : {}),
+  ...(settings.maxTokens !== undefined ? { maxTokens: settings.maxTokens } : {}),
+});
+
+// Posts `{ messages }` to the endpoint and expects `{ content }` back. When streaming, the
+// endpoint may answer with Server-Sent Events or a plain chunked text body.
+export const createHttpProvider = ({ endpoint }: HttpProviderOptions): ChatProvider => ({
+  name: "http",
+
+  sendMessage: async (messages, options) => {
+    try {
+      const { content } = await apiClient.chat.send(toChatRequest(messages, options?.settings), {
+        url: endpoint,
+        signal: options?.signal,
+      });
+      return content;
+    } catch (error) {
+      throw asProviderError(error);
+    }
+  },
+
+  streamMessage: async (messages, options) => {
+    let response: Response;
+    try {
+      response = await apiClient.chat.stream(toChatRequest(messages, options.settings), {
+        url: endpoint,
+        signal: options.signal,
+      });
+    } catch (error) {
+      throw asProviderError(error);
+    }
+    if (!response.body) {
+      throw new ChatProviderError("Chat server did not return a stream", response.status);
+    }
+
+    const isEventStream = response.headers.get("Content-Type")?.includes("text/event-stream");
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let content = "";
+    let buffer = "";
+
+    const emit = (chunk: string) => {
+      if (!chunk) return;
+      content += chunk;
+      options.onChunk(chunk);
+    };
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        if (!isEventStream) {
+          emit(value);
+          continue;
+        }
+
+        buffer += value;
+        const lines = buffer.split(/\r?\n/);
+        buffer = lines.pop() ?? "";
+        for (const line of lines) {
+          if (!line.startsWith("data:")) continue;
+          const chunk = parseEventData(line.slice(5).trimStart());
+          if (chunk === null) {
+            await reader.cancel();
+            return content;
+          }
+          emit(chunk);
+        }
+      }
+      // The last event may end without a newline.
+      if (buffer.startsWith("data:")) emit(parseEventData(buffer.slice(5).trimStart()) ?? "");
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw new ChatProviderError("The chat stream was interrupted");
+    } finally {
+      reader.releaseLock();
+    }
+    return content;
+  },
+});
+
+let provider: ChatProvider | null = null;
+
+// Picks the backend from VITE_CHAT_PROVIDER ("mock" | "http"), defaulting to the mock. The HTTP
+// provider posts to `/chat` on the API base URL unless VITE_CHAT_ENDPOINT overrides it.
+export const getChatProvider = (): ChatProvider => {
+  if (provider) return provider;
+
+  const endpoint = import.meta.env.VITE_CHAT_ENDPOINT ?? (isApiConfigured() ? "/chat" : undefined);
+  if (import.meta.env.VITE_CHAT_PROVIDER === "http" && endpoint) {
+    provider = createHttpProvider({ endpoint });
+  } else {
+    provider = createMockProvider();
+  }
+  return provider;
+};
@@ -0,0 +1,335 @@
+import { apiClient } from "@/lib/api-client";
+import { ApiError, chatHistorySchema, isApiConfigured } from "@/lib/api";
+import { listChats, openChatDb, readOlderMessages, removeChat, replaceChats, saveChats } from "@/lib/chat-db";
+import { getVersionedStore, type Migration } from "@/lib/storage";
+import type { ChatHistory } from "@/types/chat";
+
+export interface HistoryRepository {
+  list: () => Promise<ChatHistory[]>;
+  save: (chat: ChatHistory) => Promise<ChatHistory>;
+  remove: (id: string) => Promise<void>;
+  // Reconciles with the server and returns the merged list; local-only repositories just list.
+  sync: () => Promise<ChatHistory[]>;
+  // For repositories that list long chats with only their newest messages (see
+  // `olderMessageCount`): loads the next page of older messages, or all of them.
+  loadOlderMessages?: (chat: ChatHistory) => Promise<ChatHistory>;
+  loadFullChat?: (chat: ChatHistory) => Promise<ChatHistory>;
+  // For browser repositories: how many unreadable chats were quarantined since the last call.
+  takeQuarantinedCount?: () => number;
+}
+
+interface SyncState {
+  lastSyncedAt: number;
+  // Chats the server is known to have, so one missing from it later was deleted elsewhere.
+  syncedIds: string[];
+  // Local deletions the server hasn't seen yet, by chat id with their deletion time.
+  pendingDeletes: Record<string, number>;
+}
+
+// The browser-side store behind the synced repository.
+export interface LocalHistoryRepository extends HistoryRepository {
+  // Every chat with all of its messages.
+  listAll: () => Promise<ChatHistory[]>;
+  replaceAll: (chats: ChatHistory[]) => Promise<void>;
+  readSyncState: () => SyncState;
+  writeSyncState: (state: SyncState) => void;
+}
+
+// Layout of the stored history. Version 1 was a bare array of chats; version 2 wraps the chats
+// in `{ version, chats }` and gives every chat a `tagIds` list.
+const HISTORY_VERSION = 2;
+
+// Upgrades one stored chat per step, from version 1 onwards. Add a step whenever `ChatHistory`
+// changes shape and bump HISTORY_VERSION to match.
+const historyMigrations: Migration[] = [
+  // Chats saved before updatedAt existed were last touched when created.
+  (chat) => ({ ...chat, updatedAt: chat.updatedAt ?? chat.createdAt, tagIds: chat.tagIds ?? [] }),
+];
+
+// Long chats in IndexedDB are listed with this many of their newest messages.
+export const MESSAGE_PAGE_SIZE = 50;
+
+const sortChats = (chats: ChatHistory[]) =>
+  [...chats].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+// Sync bookkeeping is small, so it stays in localStorage whichever store holds the chats.
+const createSyncState = (username: string) => {
+  const syncKey = `chatHistorySync_${username}`;
+
+  const read = (): SyncState => {
+    try {
+      return { lastSyncedAt: 0, syncedIds: [], pendingDeletes: {}, ...JSON.parse(localStorage.getItem(syncKey) ?? "{}") };
+    } catch {
+      return { lastSyncedAt: 0, syncedIds: [], pendingDeletes: {} };
+    }
+  };
+
+  const write = (state: SyncState) => {
+    localStorage.setItem(syncKey, JSON.stringify(state));
+  };
+
+  return {
+    read,
+    write,
+
+    // Saving a chat again (e.g. undoing a delete) cancels its pending server delete.
+    saved: (id: string) => {
+      const state = read();
+      if (id in state.pendingDeletes) {
+        const { [id]: _cancelled, ...pendingDeletes } = state.pendingDeletes;
+        write({ ...state, pendingDeletes });
+      }
+    },
+
+    removed: (id: string) => {
+      const state = read();
+      if (state.syncedIds.includes(id)) {
+        write({ ...state, pendingDeletes: { ...state.pendingDeletes, [id]: Date.now() } });
+      }
+    },
+  };
+};
+
+// Validated and migrated on first read; chats that don't fit the schema are quarantined.
+const getLocalHistoryStore = (username: string) =>
+  getVersionedStore<ChatHistory>({
+    key: `chatHistory_${username}`,
+    version: HISTORY_VERSION,
+    migrations: historyMigrations,
+    schema: chatHistorySchema,
+    field: "chats",
+  });
+
+// The whole history as one localStorage value. Used where IndexedDB isn't available.
+export const createLocalHistoryRepository = (username: string): LocalHistoryRepository => {
+  const store = getLocalHistoryStore(username);
+  const syncState = createSyncState(username);
+
+  const write = (chats: ChatHistory[]) => store.write(sortChats(chats));
+
+  return {
+    list: async () => sortChats(store.read()),
+
+    save: async (chat: ChatHistory) => {
+      const saved = write([chat, ...store.read().filter((existing) => existing.id !== chat.id)]);
+      syncState.saved(chat.id);
+      await saved;
+      return chat;
+    },
+
+    remove: async (id: string) => {
+      const saved = write(store.read().filter((chat) => chat.id !== id));
+      syncState.removed(id);
+      await saved;
+    },
+
+    sync: async () => sortChats(store.read()),
+    takeQuarantinedCount: store.takeQuarantinedCount,
+
+    listAll: async () => sortChats(store.read()),
+    replaceAll: (chats: ChatHistory[]) => write(chats),
+    readSyncState: syncState.read,
+    writeSyncState: syncState.write,
+  };
+};
+
+const legacyImports = new Map<string, Promise<void>>();
+
+// Moves history kept in localStorage by earlier versions into IndexedDB, once per user. The old
+// value is only removed after the copy is committed.
+const importLocalHistory = (username: string) => {
+  if (!legacyImports.has(username)) {
+    const store = getLocalHistoryStore(username);
+    const chats = store.read();
+    const imported = chats.length > 0 ? saveChats(username, chats).then(store.clear) : Promise.resolve();
+    // Tried again on the next call, with the chats still in localStorage.
+    imported.catch(() => legacyImports.delete(username));
+    legacyImports.set(username, imported);
+  }
+  return legacyImports.get(username);
+};
+
+// Conversations and messages in IndexedDB, which has far more room than localStorage. Long chats
+// are listed with their newest MESSAGE_PAGE_SIZE messages and the rest loaded on request.
+export const createIndexedDbHistoryRepository = (username: string): LocalHistoryRepository => {
+  const syncState = createSyncState(username);
+  const ready = () => importLocalHistory(username);
+
+  const listAll = async () => {
+    await ready();
+    return sortChats(await listChats(username, Infinity));
+  };
+
+  return {
+    list: async () => {
+      await ready();
+      return sortChats(await listChats(username, MESSAGE_PAGE_SIZE));
+    },
+
+    save: async (chat: ChatHistory) => {
+      await ready();
+      await saveChats(username, [chat]);
+      syncState.saved(chat.id);
+      return chat;
+    },
+
+    remove: async (id: string) => {
+      await ready();
+      await removeChat(username, id);
+      syncState.removed(id);
+    },
+
+    sync: async () => sortChats(await listChats(username, MESSAGE_PAGE_SIZE)),
+
+    loadOlderMessages: (chat) => readOlderMessages(username, chat, MESSAGE_PAGE_SIZE),
+    loadFullChat: (chat) => readOlderMessages(username, chat, Infinity),
+    // Only chats imported from localStorage are checked this way.
+    takeQuarantinedCount: getLocalHistoryStore(username).takeQuarantinedCount,
+
+    listAll,
+    replaceAll: async (chats: ChatHistory[]) => {
+      await ready();
+      await replaceChats(username, chats);
+    },
+    readSyncState: syncState.read,
+    writeSyncState: syncState.write,
+  };
+};
+
+// IndexedDB where the browser allows it; localStorage where it's missing or blocked, as in some
+// private browsing modes.
+export const createBrowserHistoryRepository = (username: string): LocalHistoryRepository => {
+  const backend = openChatDb().then(
+    () => createIndexedDbHistoryRepository(username),
+    () => createLocalHistoryRepository(username),
+  );
+  const syncState = createSyncState(username);
+
+  return {
+    list: async () => (await backend).list(),
+    save: async (chat) => (await backend).save(chat),
+    remove: async (id) => (await backend).remove(id),
+    sync: async () => (await backend).sync(),
+    loadOlderMessages: async (chat) => (await backend).loadOlderMessages?.(chat) ?? chat,
+    loadFullChat: async (chat) => (await backend).loadFullChat?.(chat) ?? chat,
+    // Either backend reads the localStorage store, which does the quarantining.
+    takeQuarantinedCount: getLocalHistoryStore(username).takeQuarantinedCount,
+    listAll: async () => (await backend).listAll(),
+    replaceAll: async (chats) => (await backend).replaceAll(chats),
+    readSyncState: syncState.read,
+    writeSyncState: syncState.write,
+  };
+};
+
+// Browsers allow localStorage about 5 MB per site and have no API to ask.
+const LOCAL_STORAGE_QUOTA = 5 * 1024 * 1024;
+
+export interface StorageUsage {
+  backend: "indexedDB" | "localStorage";
+  used: number;
+  quota: number;
+}
+
+// How much of the browser's storage this site uses, or null when the browser won't say.
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  try {
+    await openChatDb();
+  } catch {
+    let used = 0;
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i) ?? "";
+      // Strings are stored as UTF-16, two bytes per character.
+      used += (key.length + (localStorage.getItem(key)?.length ?? 0)) * 2;
+    }
+    return { backend: "localStorage", used, quota: LOCAL_STORAGE_QUOTA };
+  }
+  const estimate = await navigator.storage?.estimate?.();
+  return estimate?.usage !== undefined && estimate.quota ? { backend: "indexedDB", used: estimate.usage, quota: estimate.quota } : null;
+};
+
+export const createRestHistoryRepository = (): HistoryRepository => ({
+  list: async () => sortChats(await apiClient.history.list()),
+  save: (chat) => apiClient.history.save(chat),
+  remove: async (id) => {
+    await apiClient.history.remove(id);
+  },
+  sync: async () => sortChats(await apiClient.history.list()),
+});
+
+// Local-first: reads and writes hit localStorage immediately and `sync` reconciles with the
+// server in the background. When both sides changed a chat, the later `updatedAt` wins.
+export const createSyncedHistoryRepository = (
+  local: LocalHistoryRepository,
+  remote: HistoryRepository,
+): HistoryRepository => ({
+  list: local.list,
+  save: local.save,
+  remove: local.remove,
+  loadOlderMessages: local.loadOlderMessages,
+  loadFullChat: local.loadFullChat,
+  takeQuarantinedCount: local.takeQuarantinedCount,
+
+  sync: async () => {
+    const startedAt = Date.now();
+    const state = local.readSyncState();
+    const deletedIds = Object.keys(state.pendingDeletes);
+
+    for (const id of deletedIds) {
+      try {
+        await remote.remove(id);
+      } catch (error) {
+        // Already gone on the server is as good as deleted.
+        if (!(error instanceof ApiError && error.status === 404)) throw error;
+      }
+    }
+
+    const remoteChats = await remote.list();
+    const remoteById = new Map(remoteChats.map((chat) => [chat.id, chat]));
+    // Complete chats: a long one listed with only its newest messages would overwrite the server's.
+    const localChats = await local.listAll();
+    const localById = new Map(localChats.map((chat) => [chat.id, chat]));
+    const merged: ChatHistory[] = [];
+
+    for (const chat of localChats) {
+      const remoteChat = remoteById.get(chat.id);
+      if (!remoteChat) {
+        // Known to the server but gone now and untouched since: it was deleted elsewhere.
+        const deletedRemotely = state.syncedIds.includes(chat.id) && chat.updatedAt.getTime() <= state.lastSyncedAt;
+        if (!deletedRemotely) merged.push(await remote.save(chat));
+      } else if (chat.updatedAt > remoteChat.updatedAt) {
+        merged.push(await remote.save(chat));
+      } else {
+        merged.push(remoteChat);
+      }
+    }
+    for (const chat of remoteChats) {
+      if (!localById.has(chat.id) && !(chat.id in state.pendingDeletes)) merged.push(chat);
+    }
+
+    // Keep whatever was saved or deleted locally while the sync was in flight; the next sync
+    // pushes it.
+    const latest = await local.listAll();
+    const latestIds = new Set(latest.map((chat) => chat.id));
+    const changedMeanwhile = latest.filter((chat) => chat.updatedAt.getTime() > startedAt);
+    const result = [
+      ...changedMeanwhile,
+      ...merged.filter((chat) => !changedMeanwhile.some((changed) => changed.id === chat.id)),
+    ].filter((chat) => latestIds.has(chat.id) || !localById.has(chat.id));
+
+    const { pendingDeletes } = local.readSyncState();
+    deletedIds.forEach((id) => delete pendingDeletes[id]);
+
+    await local.replaceAll(result);
+    local.writeSyncState({
+      lastSyncedAt: startedAt,
+      syncedIds: merged.map((chat) => chat.id),
+      pendingDeletes,
+    });
+    return local.list();
+  },
+});
+
+export const getHistoryRepository = (username: string): HistoryRepository => {
+  const local = createBrowserHistoryRepository(username);
+  return isApiConfigured() ? createSyncedHistoryRepository(local, createRestHistoryRepository()) : local;
+};
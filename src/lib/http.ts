@@ -0,0 +1,42 @@
+import { API_BASE_URL } from "@/lib/api";
+import { authService } from "@/lib/auth";
+
+// Returns a usable access token, refreshing it first when it has expired.
+const getFreshToken = async () => {
+  const token = authService.getToken();
+  if (token && !authService.isTokenExpired(token)) return token;
+  if (!token && !authService.getRefreshToken()) return undefined;
+  return (await authService.refresh()) ?? undefined;
+};
+
+const withAuthorization = (init: RequestInit, token: string | undefined): RequestInit => {
+  const headers = new Headers(init.headers);
+  if (token) headers.set("Authorization", `Bearer ${token}`);
+  return { ...init, headers };
+};
+
+// Only this app's origin and the API base URL are sent the token and trusted to end the session.
+const isOwnUrl = (input: RequestInfo | URL) => {
+  const url = new URL(input instanceof Request ? input.url : input, window.location.origin);
+  const apiBase = new URL(`${API_BASE_URL}/`, window.location.origin);
+  return url.origin === window.location.origin || (url.origin === apiBase.origin && url.pathname.startsWith(apiBase.pathname));
+};
+
+// `fetch` for authenticated endpoints. A 401 triggers one silent refresh and retry; if that
+// fails too, the session is expired and the user is signed out. Other hosts, such as an external
+// chat endpoint, get a plain `fetch`.
+export const authFetch = async (input: RequestInfo | URL, init: RequestInit = {}) => {
+  if (!isOwnUrl(input)) return fetch(input, init);
+
+  const response = await fetch(input, withAuthorization(init, await getFreshToken()));
+  if (response.status !== 401) return response;
+
+  const refreshed = await authService.refresh();
+  if (refreshed) {
+    const retried = await fetch(input, withAuthorization(init, refreshed));
+    if (retried.status !== 401) return retried;
+  }
+
+  authService.expireSession();
+  return response;
+};
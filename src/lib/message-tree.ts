@@ -0,0 +1,51 @@
+import type { ChatHistory, Message } from "@/types/chat";
+
+// Messages are stored flat and linked through `parentId`. Messages saved before branching have
+// no parentId and follow the message before them, so old chats read as a single branch.
+const getParentMap = (messages: Message[]) =>
+  new Map(
+    messages.map((message, index) => [
+      message.id,
+      message.parentId !== undefined ? message.parentId : messages[index - 1]?.id ?? null,
+    ]),
+  );
+
+export const getParentId = (messages: Message[], messageId: string) => getParentMap(messages).get(messageId) ?? null;
+
+// Each message id mapped to itself and its alternatives (messages with the same parent), oldest first.
+export const getSiblingMap = (messages: Message[]) => {
+  const parents = getParentMap(messages);
+  const byParent = new Map<string | null, Message[]>();
+  for (const message of messages) {
+    const parentId = parents.get(message.id);
+    byParent.set(parentId, [...(byParent.get(parentId) ?? []), message]);
+  }
+  return new Map(messages.map((message) => [message.id, byParent.get(parents.get(message.id))]));
+};
+
+// Follows the newest child down from `messageId`, which is where switching to a branch lands.
+export const getLatestLeaf = (messages: Message[], messageId: string) => {
+  const parents = getParentMap(messages);
+  let leafId = messageId;
+  for (;;) {
+    const children = messages.filter((message) => parents.get(message.id) === leafId);
+    if (children.length === 0) return leafId;
+    leafId = children[children.length - 1].id;
+  }
+};
+
+// The conversation from the first message down to `leafId` (or the newest message).
+export const getBranch = (messages: Message[], leafId?: string | null): Message[] => {
+  if (messages.length === 0) return [];
+  const parents = getParentMap(messages);
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  const branch: Message[] = [];
+  let id = leafId && byId.has(leafId) ? leafId : messages[messages.length - 1].id;
+  while (id && byId.has(id) && branch.length < messages.length) {
+    branch.push(byId.get(id));
+    id = parents.get(id) ?? null;
+  }
+  return branch.reverse();
+};
+
+export const getActiveBranch = (chat: ChatHistory) => getBranch(chat.messages, chat.currentLeafId);
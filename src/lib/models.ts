@@ -0,0 +1,22 @@
+import { z } from "zod";
+import modelConfig from "@/config/chat-models.json";
+
+const chatModelSchema = z.object({
+  id: z.string().min(1),
+  label: z.string(),
+  description: z.string().optional(),
+});
+
+const chatModelTableSchema = z.object({
+  models: z.array(chatModelSchema),
+});
+
+export type ChatModel = z.infer<typeof chatModelSchema>;
+
+// Model ids are passed to the chat backend as-is; a chat without one uses the server's default.
+const modelTable = chatModelTableSchema.parse(modelConfig);
+
+export const getChatModels = (): ChatModel[] => modelTable.models;
+
+export const findChatModel = (id: string) =>
+  modelTable.models.find((model) => model.id.toLowerCase() === id.toLowerCase());
@@ -0,0 +1,125 @@
+import { apiClient } from "@/lib/api-client";
+import { isApiConfigured } from "@/lib/api";
+
+// Swatch for the color picker and badge for chats, per tag color.
+export const TAG_COLORS = {
+  gray: { swatch: "bg-slate-400", badge: "bg-slate-500/15 text-slate-700 dark:text-slate-300" },
+  red: { swatch: "bg-red-500", badge: "bg-red-500/15 text-red-700 dark:text-red-300" },
+  orange: { swatch: "bg-orange-500", badge: "bg-orange-500/15 text-orange-700 dark:text-orange-300" },
+  amber: { swatch: "bg-amber-400", badge: "bg-amber-400/20 text-amber-700 dark:text-amber-300" },
+  green: { swatch: "bg-green-500", badge: "bg-green-500/15 text-green-700 dark:text-green-300" },
+  teal: { swatch: "bg-teal-500", badge: "bg-teal-500/15 text-teal-700 dark:text-teal-300" },
+  blue: { swatch: "bg-blue-500", badge: "bg-blue-500/15 text-blue-700 dark:text-blue-300" },
+  violet: { swatch: "bg-violet-500", badge: "bg-violet-500/15 text-violet-700 dark:text-violet-300" },
+  pink: { swatch: "bg-pink-500", badge: "bg-pink-500/15 text-pink-700 dark:text-pink-300" },
+};
+
+export type TagColor = keyof typeof TAG_COLORS;
+
+export const TAG_COLOR_NAMES = Object.keys(TAG_COLORS) as TagColor[];
+
+// Colors saved by a newer version fall back to gray.
+export const getTagColor = (color: string) => TAG_COLORS[color as TagColor] ?? TAG_COLORS.gray;
+
+export interface ChatFolder {
+  id: string;
+  name: string;
+}
+
+export interface ChatTag {
+  id: string;
+  name: string;
+  color: TagColor;
+}
+
+// A user's own folders, in sidebar order, and tags. Chats point at them by id.
+export interface ChatOrganizer {
+  folders: ChatFolder[];
+  tags: ChatTag[];
+}
+
+export interface OrganizerRepository {
+  get: () => Promise<ChatOrganizer>;
+  save: (organizer: ChatOrganizer) => Promise<ChatOrganizer>;
+}
+
+export const EMPTY_ORGANIZER: ChatOrganizer = { folders: [], tags: [] };
+
+// Drag-and-drop payload types, so sidebar drop targets can tell chats and folders apart.
+export const CHAT_DRAG_TYPE = "application/x-chat-id";
+export const FOLDER_DRAG_TYPE = "application/x-folder-id";
+
+// Folder filter values besides a folder id. Select items can't have an empty value.
+export const ALL_FOLDERS = "__all";
+export const UNFILED = "__unfiled";
+
+const createId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+
+export const addFolder = (organizer: ChatOrganizer, name: string) => {
+  const folder: ChatFolder = { id: createId("folder"), name };
+  return { organizer: { ...organizer, folders: [...organizer.folders, folder] }, folder };
+};
+
+export const renameFolder = (organizer: ChatOrganizer, id: string, name: string): ChatOrganizer => ({
+  ...organizer,
+  folders: organizer.folders.map((folder) => (folder.id === id ? { ...folder, name } : folder)),
+});
+
+// Chats in a removed folder keep its id and simply show as unfiled.
+export const removeFolder = (organizer: ChatOrganizer, id: string): ChatOrganizer => ({
+  ...organizer,
+  folders: organizer.folders.filter((folder) => folder.id !== id),
+});
+
+// Moves folder `id` to just before `beforeId`, or to the end when `beforeId` is null.
+export const moveFolder = (organizer: ChatOrganizer, id: string, beforeId: string | null): ChatOrganizer => {
+  const moving = organizer.folders.find((folder) => folder.id === id);
+  if (!moving || id === beforeId) return organizer;
+  const others = organizer.folders.filter((folder) => folder.id !== id);
+  const index = beforeId ? others.findIndex((folder) => folder.id === beforeId) : -1;
+  others.splice(index === -1 ? others.length : index, 0, moving);
+  return { ...organizer, folders: others };
+};
+
+export const addTag = (organizer: ChatOrganizer, name: string, color: TagColor) => {
+  const tag: ChatTag = { id: createId("tag"), name, color };
+  return { organizer: { ...organizer, tags: [...organizer.tags, tag] }, tag };
+};
+
+export const updateTag = (organizer: ChatOrganizer, id: string, changes: Partial<Omit<ChatTag, "id">>): ChatOrganizer => ({
+  ...organizer,
+  tags: organizer.tags.map((tag) => (tag.id === id ? { ...tag, ...changes } : tag)),
+});
+
+// Chats keep the id of a removed tag; it is ignored when shown or filtered.
+export const removeTag = (organizer: ChatOrganizer, id: string): ChatOrganizer => ({
+  ...organizer,
+  tags: organizer.tags.filter((tag) => tag.id !== id),
+});
+
+export const createLocalOrganizerRepository = (username: string): OrganizerRepository => {
+  const key = `chatOrganizer_${username}`;
+
+  return {
+    get: async () => {
+      try {
+        return { ...EMPTY_ORGANIZER, ...JSON.parse(localStorage.getItem(key) ?? "{}") };
+      } catch {
+        return EMPTY_ORGANIZER;
+      }
+    },
+
+    save: async (organizer) => {
+      localStorage.setItem(key, JSON.stringify(organizer));
+      return organizer;
+    },
+  };
+};
+
+export const createRestOrganizerRepository = (): OrganizerRepository => ({
+  get: () => apiClient.organizer.get(),
+  save: (organizer) => apiClient.organizer.save(organizer),
+});
+
+export const getOrganizerRepository = (username: string): OrganizerRepository =>
+  isApiConfigured() ? createRestOrganizerRepository() : createLocalOrganizerRepository(username);
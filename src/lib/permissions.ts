@@ -0,0 +1,18 @@
+export type Permission = "admin:access" | "users:manage" | "templates:manage" | "spaces:manage";
+
+const ROLE_PERMISSIONS: Record<string, Permission[]> = {
+  student: [],
+  faculty: ["templates:manage", "spaces:manage"],
+  admin: ["admin:access", "users:manage", "templates:manage", "spaces:manage"],
+};
+
+export const hasPermission = (role: string, permission: Permission) =>
+  ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+
+// Only same-origin paths are honoured, so a crafted link can't bounce users off-site after login.
+// Browsers read `/\host` and `//host` as another site, so the path is resolved the way they would.
+export const getSafeReturnTo = (returnTo: string | null) => {
+  if (!returnTo?.startsWith("/")) return null;
+  const url = new URL(returnTo, window.location.origin);
+  return url.origin === window.location.origin ? `${url.pathname}${url.search}${url.hash}` : null;
+};
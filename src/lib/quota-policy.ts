@@ -0,0 +1,33 @@
+import { z } from "zod";
+import policyConfig from "@/config/quota-policies.json";
+
+// `null` means no limit for that period.
+const limitSchema = z.number().int().nonnegative().nullable();
+
+const quotaPolicySchema = z.object({
+  daily: limitSchema,
+  hourlyBurst: limitSchema,
+  monthly: limitSchema.optional().default(null),
+  // Whether asking for another answer to the same question uses up a question.
+  regenerationsCountAgainstQuota: z.boolean().optional().default(true),
+});
+
+const quotaPolicyTableSchema = z
+  .object({
+    defaultRole: z.string(),
+    roles: z.record(quotaPolicySchema),
+  })
+  .refine((table) => table.defaultRole in table.roles, {
+    message: "defaultRole must name one of the configured roles",
+  });
+
+export type QuotaPolicy = z.infer<typeof quotaPolicySchema>;
+export type QuotaPolicyTable = z.infer<typeof quotaPolicyTableSchema>;
+
+// Fails loudly at startup rather than silently granting unlimited questions.
+const policyTable: QuotaPolicyTable = quotaPolicyTableSchema.parse(policyConfig);
+
+export const getQuotaPolicy = (role: string): QuotaPolicy =>
+  policyTable.roles[role] ?? policyTable.roles[policyTable.defaultRole];
+
+export const getQuotaPolicyTable = () => policyTable;
@@ -0,0 +1,324 @@
+import { apiClient } from "@/lib/api-client";
+import { ApiError, isApiConfigured, quotaStatusSchema } from "@/lib/api";
+import { getQuotaPolicy } from "@/lib/quota-policy";
+import type { UserData } from "@/types/chat";
+
+const USAGE_KEY_PREFIX = "quota_";
+const HOUR_MS = 60 * 60 * 1000;
+
+export type QuotaPeriod = "hour" | "day" | "month";
+
+export interface QuotaWindow {
+  used: number;
+  // `null` means the user has no limit for this period.
+  limit: number | null;
+  resetsAt: Date;
+}
+
+// `pool` is the daily pool of the space the question is asked in, shared by all its members.
+export type QuotaStatus = Record<QuotaPeriod, QuotaWindow> & { pool?: QuotaWindow };
+
+export type QuotaLimit = QuotaPeriod | "pool";
+
+// The shared pool a question in a space also draws from.
+export interface QuotaPool {
+  spaceId: string;
+  // Questions per day for the whole space; `null` for no shared limit.
+  dailyLimit: number | null;
+}
+
+const PERIOD_LABELS: Record<QuotaLimit, string> = {
+  hour: "hourly",
+  day: "daily",
+  month: "monthly",
+  pool: "space's shared daily",
+};
+
+export const isWindowExhausted = (window: QuotaWindow | undefined) =>
+  !!window && window.limit !== null && window.used >= window.limit;
+
+// The limit stopping the user from asking right now, preferring the one that lifts last.
+export const getBlockingPeriod = (status: QuotaStatus): QuotaLimit | null =>
+  (["month", "day", "pool", "hour"] as const).find((period) => isWindowExhausted(status[period])) ?? null;
+
+export const describeLimit = (status: QuotaStatus, period: QuotaLimit) =>
+  `${PERIOD_LABELS[period]} question limit of ${status[period].limit}`;
+
+export class QuotaExceededError extends Error {
+  readonly status: QuotaStatus;
+  readonly period: QuotaLimit;
+
+  constructor(status: QuotaStatus, period: QuotaLimit) {
+    super(`You've reached your ${describeLimit(status, period)}.`);
+    this.name = "QuotaExceededError";
+    this.status = status;
+    this.period = period;
+  }
+}
+
+export interface QuotaService {
+  // With a pool, the status includes the space's shared window too.
+  getStatus: (user: UserData, pool?: QuotaPool) => Promise<QuotaStatus>;
+  // Records one question, or throws QuotaExceededError without recording it.
+  consume: (user: UserData, pool?: QuotaPool) => Promise<QuotaStatus>;
+}
+
+export const getUserTimeZone = (user: UserData) =>
+  user.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const zonedParts = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+};
+
+// Calendar day in the user's time zone, e.g. "2024-03-09"; usage is bucketed by it.
+export const getDayKey = (date: Date, timeZone: string) => {
+  const { year, month, day } = zonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+};
+
+// The next local midnight in `timeZone`, corrected for days that are 23 or 25 hours long.
+export const getNextReset = (now: Date, timeZone: string) => {
+  const { hour, minute, second } = zonedParts(now, timeZone);
+  const elapsed = ((hour * 60 + minute) * 60 + second) * 1000 + now.getMilliseconds();
+  const candidate = new Date(now.getTime() + 24 * 60 * 60 * 1000 - elapsed);
+
+  const drift = zonedParts(candidate, timeZone).hour;
+  if (drift === 0) return candidate;
+  const correction = drift > 12 ? 24 - drift : -drift;
+  return new Date(candidate.getTime() + correction * 60 * 60 * 1000);
+};
+
+// Local midnight at the start of the next calendar month in `timeZone`.
+export const getNextMonthReset = (now: Date, timeZone: string) => {
+  let reset = getNextReset(now, timeZone);
+  while (!getDayKey(reset, timeZone).endsWith("-01")) {
+    reset = getNextReset(reset, timeZone);
+  }
+  return reset;
+};
+
+export const formatTimeUntil = (date: Date, now = new Date()) => {
+  const minutes = Math.max(0, Math.ceil((date.getTime() - now.getTime()) / 60000));
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+};
+
+// Serializes read-modify-write across tabs where the Web Locks API exists.
+const withLock = <T>(name: string, fn: () => T): Promise<T> =>
+  navigator.locks ? navigator.locks.request(name, async () => fn()) : Promise.resolve().then(fn);
+
+export interface StoredUsage {
+  day: string;
+  dayUsed: number;
+  // Extra questions an admin granted for `day`.
+  dayBonus: number;
+  month: string;
+  monthUsed: number;
+  // Question times within the last hour, for the rolling burst window.
+  recent: number[];
+  // Questions per day key, kept for the last HISTORY_DAYS days.
+  history: Record<string, number>;
+}
+
+export interface KnownUser {
+  username: string;
+  role: string;
+  timeZone: string;
+  lastSeenAt: string;
+}
+
+// Questions asked in a space today, by all members together.
+export interface StoredPoolUsage {
+  day: string;
+  used: number;
+}
+
+const HISTORY_DAYS = 30;
+const KNOWN_USERS_KEY = "quota_users";
+const POOL_KEY_PREFIX = "space_quota_";
+
+// Persistence behind the mock quota service. It also remembers every user it has served,
+// standing in for the backend's user table in the mock admin service.
+export const mockUsageStore = {
+  read: (username: string, timeZone: string, now: Date): StoredUsage => {
+    const day = getDayKey(now, timeZone);
+    const month = day.slice(0, 7);
+    let stored: Partial<StoredUsage> | null = null;
+    try {
+      stored = JSON.parse(localStorage.getItem(USAGE_KEY_PREFIX + username) ?? "null");
+    } catch {
+      // Unreadable usage counts as a fresh start.
+    }
+    const oldestDay = getDayKey(new Date(now.getTime() - HISTORY_DAYS * 24 * HOUR_MS), timeZone);
+    return {
+      day,
+      dayUsed: stored?.day === day ? stored.dayUsed ?? 0 : 0,
+      dayBonus: stored?.day === day ? stored.dayBonus ?? 0 : 0,
+      month,
+      monthUsed: stored?.month === month ? stored.monthUsed ?? 0 : 0,
+      recent: (stored?.recent ?? []).filter((time) => now.getTime() - time < HOUR_MS),
+      history: Object.fromEntries(
+        Object.entries(stored?.history ?? {}).filter(([key]) => key > oldestDay)
+      ),
+    };
+  },
+
+  // Applies `change` under a cross-tab lock; `change` may throw to leave usage untouched.
+  update: (username: string, timeZone: string, change: (usage: StoredUsage, now: Date) => StoredUsage) =>
+    withLock(USAGE_KEY_PREFIX + username, () => {
+      const now = new Date();
+      const next = change(mockUsageStore.read(username, timeZone, now), now);
+      localStorage.setItem(USAGE_KEY_PREFIX + username, JSON.stringify(next));
+      return next;
+    }),
+
+  readPool: (spaceId: string, timeZone: string, now: Date): StoredPoolUsage => {
+    const day = getDayKey(now, timeZone);
+    let stored: Partial<StoredPoolUsage> | null = null;
+    try {
+      stored = JSON.parse(localStorage.getItem(POOL_KEY_PREFIX + spaceId) ?? "null");
+    } catch {
+      // As with personal usage, unreadable means a fresh start.
+    }
+    return { day, used: stored?.day === day ? stored.used ?? 0 : 0 };
+  },
+
+  writePool: (spaceId: string, usage: StoredPoolUsage) => {
+    localStorage.setItem(POOL_KEY_PREFIX + spaceId, JSON.stringify(usage));
+  },
+
+  getKnownUsers: (): KnownUser[] => {
+    try {
+      return JSON.parse(localStorage.getItem(KNOWN_USERS_KEY) ?? "[]");
+    } catch {
+      return [];
+    }
+  },
+
+  saveKnownUser: (user: KnownUser) => {
+    const others = mockUsageStore.getKnownUsers().filter((known) => known.username !== user.username);
+    localStorage.setItem(KNOWN_USERS_KEY, JSON.stringify([...others, user]));
+  },
+
+  // A role an admin assigned wins over the one the session reports.
+  rememberUser: (user: UserData, now: Date): KnownUser => {
+    const known = mockUsageStore.getKnownUsers().find((entry) => entry.username === user.username);
+    const entry = {
+      username: user.username,
+      role: known?.role ?? user.role,
+      timeZone: getUserTimeZone(user),
+      lastSeenAt: now.toISOString(),
+    };
+    mockUsageStore.saveKnownUser(entry);
+    return entry;
+  },
+
+  toStatus: (
+    role: string,
+    timeZone: string,
+    usage: StoredUsage,
+    now: Date,
+    pool?: { dailyLimit: number | null; usage: StoredPoolUsage },
+  ): QuotaStatus => {
+    const policy = getQuotaPolicy(role);
+    const oldestRecent = usage.recent[0] ?? now.getTime();
+    return {
+      ...(pool ? { pool: { used: pool.usage.used, limit: pool.dailyLimit, resetsAt: getNextReset(now, timeZone) } } : {}),
+      hour: { used: usage.recent.length, limit: policy.hourlyBurst, resetsAt: new Date(oldestRecent + HOUR_MS) },
+      day: {
+        used: usage.dayUsed,
+        limit: policy.daily === null ? null : policy.daily + usage.dayBonus,
+        resetsAt: getNextReset(now, timeZone),
+      },
+      month: { used: usage.monthUsed, limit: policy.monthly, resetsAt: getNextMonthReset(now, timeZone) },
+    };
+  },
+};
+
+// Stands in for the quota API during local development. Usage lives in localStorage, so it
+// is only as trustworthy as the browser; set VITE_API_BASE_URL to enforce limits on a backend.
+export const createMockQuotaService = (): QuotaService => ({
+  getStatus: async (user, pool) => {
+    const now = new Date();
+    const { role, timeZone } = mockUsageStore.rememberUser(user, now);
+    const poolUsage = pool && { dailyLimit: pool.dailyLimit, usage: mockUsageStore.readPool(pool.spaceId, timeZone, now) };
+    return mockUsageStore.toStatus(role, timeZone, mockUsageStore.read(user.username, timeZone, now), now, poolUsage);
+  },
+
+  consume: async (user, pool) => {
+    const { role, timeZone } = mockUsageStore.rememberUser(user, new Date());
+    let poolUsage: { dailyLimit: number | null; usage: StoredPoolUsage } | undefined;
+    // The pool stays locked around the user's update, so two members can't both take its last question.
+    const consumeOwn = () => mockUsageStore.update(user.username, timeZone, (usage, now) => {
+      poolUsage = pool && { dailyLimit: pool.dailyLimit, usage: mockUsageStore.readPool(pool.spaceId, timeZone, now) };
+      const status = mockUsageStore.toStatus(role, timeZone, usage, now, poolUsage);
+      const blocking = getBlockingPeriod(status);
+      if (blocking) {
+        throw new QuotaExceededError(status, blocking);
+      }
+      if (pool) {
+        poolUsage.usage = { ...poolUsage.usage, used: poolUsage.usage.used + 1 };
+        mockUsageStore.writePool(pool.spaceId, poolUsage.usage);
+      }
+      return {
+        ...usage,
+        dayUsed: usage.dayUsed + 1,
+        monthUsed: usage.monthUsed + 1,
+        recent: [...usage.recent, now.getTime()],
+        history: { ...usage.history, [usage.day]: (usage.history[usage.day] ?? 0) + 1 },
+      };
+    });
+    const next = await (pool ? withLock(POOL_KEY_PREFIX + pool.spaceId, consumeOwn) : consumeOwn());
+    return mockUsageStore.toStatus(role, timeZone, next, new Date(), poolUsage);
+  },
+});
+
+// GET /quota reports usage; POST /quota/consume decrements atomically and answers 429 with
+// the current status once any limit is reached. Questions in a space name it in `X-Space-Id`,
+// and the server adds and charges the space's pool; it knows the pool's limit itself.
+export const createHttpQuotaService = (): QuotaService => {
+  const consume = async (user: UserData, pool?: QuotaPool) => {
+    try {
+      return await apiClient.quota.consume(getUserTimeZone(user), pool?.spaceId);
+    } catch (error) {
+      const parsed = error instanceof ApiError && error.status === 429 ? quotaStatusSchema.safeParse(error.data) : null;
+      if (parsed?.success) {
+        const status = parsed.data as QuotaStatus;
+        throw new QuotaExceededError(status, getBlockingPeriod(status) ?? "day");
+      }
+      throw error;
+    }
+  };
+
+  return {
+    getStatus: (user, pool) => apiClient.quota.get(getUserTimeZone(user), pool?.spaceId),
+    consume,
+  };
+};
+
+let quotaService: QuotaService | null = null;
+
+export const getQuotaService = (): QuotaService => {
+  if (quotaService) return quotaService;
+
+  quotaService = isApiConfigured() ? createHttpQuotaService() : createMockQuotaService();
+  return quotaService;
+};
@@ -0,0 +1,72 @@
+import type { ChatHistory, Message } from "@/types/chat";
+
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface MessageMatch {
+  message: Message;
+  snippet: SnippetPart[];
+}
+
+export interface ChatSearchResult {
+  chat: ChatHistory;
+  matches: MessageMatch[];
+}
+
+interface IndexEntry {
+  chat: ChatHistory;
+  message: Message;
+  text: string;
+}
+
+export type SearchIndex = IndexEntry[];
+
+const SNIPPET_RADIUS = 60;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export const getSearchTerms = (query: string) =>
+  query.toLowerCase().split(/\s+/).filter(Boolean);
+
+export const buildSearchIndex = (chats: ChatHistory[]): SearchIndex =>
+  chats.flatMap((chat) =>
+    chat.messages
+      .filter((message) => message.content)
+      .map((message) => ({ chat, message, text: message.content.toLowerCase() })),
+  );
+
+// Cuts a window of text around the first term and marks every term occurrence in it.
+export const buildSnippet = (content: string, terms: string[]): SnippetPart[] => {
+  const flat = content.replace(/\s+/g, " ");
+  const lower = flat.toLowerCase();
+  const first = Math.min(...terms.map((term) => lower.indexOf(term)).filter((index) => index >= 0));
+  const start = Number.isFinite(first) ? Math.max(0, first - SNIPPET_RADIUS) : 0;
+  const end = Math.min(flat.length, (Number.isFinite(first) ? first : 0) + SNIPPET_RADIUS * 2);
+  const window = `${start > 0 ? "…" : ""}${flat.slice(start, end)}${end < flat.length ? "…" : ""}`;
+
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join("|")})`, "gi");
+  return window
+    .split(pattern)
+    .filter(Boolean)
+    .map((text) => ({ text, highlight: terms.includes(text.toLowerCase()) }));
+};
+
+// A message matches when it contains every term; results keep the index's chat order.
+export const searchChats = (index: SearchIndex, query: string, limit = 50): ChatSearchResult[] => {
+  const terms = getSearchTerms(query);
+  if (terms.length === 0) return [];
+
+  const results = new Map<string, ChatSearchResult>();
+  let count = 0;
+  for (const entry of index) {
+    if (count >= limit) break;
+    if (!terms.every((term) => entry.text.includes(term))) continue;
+    const result = results.get(entry.chat.id) ?? { chat: entry.chat, matches: [] };
+    result.matches.push({ message: entry.message, snippet: buildSnippet(entry.message.content, terms) });
+    results.set(entry.chat.id, result);
+    count++;
+  }
+  return [...results.values()];
+};
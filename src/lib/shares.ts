@@ -0,0 +1,172 @@
+import { apiClient } from "@/lib/api-client";
+import { ApiError, isApiConfigured } from "@/lib/api";
+import { getActiveBranch } from "@/lib/message-tree";
+import type { ChatHistory, Message, UserData } from "@/types/chat";
+
+// A read-only snapshot of one chat, readable by anyone with its link.
+export interface SharedChat {
+  id: string;
+  chatId: string;
+  title: string;
+  // The branch that was on screen when the link was made; later messages aren't included.
+  messages: Message[];
+  // Left out of the public view when the owner chose to hide their name.
+  owner?: string;
+  redactOwner: boolean;
+  createdAt: Date;
+  // null for links that never expire.
+  expiresAt: Date | null;
+}
+
+export interface ShareOptions {
+  expiresAt: Date | null;
+  redactOwner: boolean;
+}
+
+export interface ShareService {
+  // The user's own links, newest first.
+  list: (user: UserData) => Promise<SharedChat[]>;
+  create: (user: UserData, chat: ChatHistory, options: ShareOptions) => Promise<SharedChat>;
+  update: (user: UserData, id: string, options: ShareOptions) => Promise<SharedChat>;
+  revoke: (user: UserData, id: string) => Promise<void>;
+  // Public; throws ShareUnavailableError for revoked, unknown or expired links.
+  get: (id: string) => Promise<SharedChat>;
+}
+
+export type ShareUnavailableReason = "not_found" | "expired";
+
+export class ShareUnavailableError extends Error {
+  readonly reason: ShareUnavailableReason;
+
+  constructor(reason: ShareUnavailableReason) {
+    super(reason === "expired" ? "This link has expired" : "This link doesn't exist or was revoked");
+    this.name = "ShareUnavailableError";
+    this.reason = reason;
+  }
+}
+
+export const SHARE_EXPIRY_OPTIONS = [
+  { value: "1", label: "1 day" },
+  { value: "7", label: "7 days" },
+  { value: "30", label: "30 days" },
+  { value: "never", label: "Never" },
+];
+
+// Turns an expiry option into a date counted from now.
+export const getShareExpiry = (option: string, now = new Date()) =>
+  option === "never" ? null : new Date(now.getTime() + Number(option) * 24 * 60 * 60 * 1000);
+
+export const isShareExpired = (share: SharedChat, now = new Date()) =>
+  !!share.expiresAt && share.expiresAt.getTime() <= now.getTime();
+
+export const getShareUrl = (id: string) => `${window.location.origin}/share/${encodeURIComponent(id)}`;
+
+// Copies the branch on screen, without links to messages the snapshot doesn't carry.
+export const createShareSnapshot = (chat: ChatHistory) => ({
+  chatId: chat.id,
+  title: chat.title,
+  messages: getActiveBranch(chat)
+    .filter((message) => message.content || message.attachments?.length)
+    .map(({ parentId, ...message }) => message),
+});
+
+const sortShares = (shares: SharedChat[]) =>
+  [...shares].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+type StoredShare = Omit<SharedChat, "createdAt" | "expiresAt" | "messages"> & {
+  createdAt: string;
+  expiresAt: string | null;
+  messages: (Omit<Message, "timestamp"> & { timestamp: string })[];
+};
+
+// Shared by every account on this browser, so a link opens signed out or as someone else.
+const SHARES_KEY = "sharedChats";
+
+export const createMockShareService = (): ShareService => {
+  const read = (): SharedChat[] => {
+    try {
+      return (JSON.parse(localStorage.getItem(SHARES_KEY) ?? "[]") as StoredShare[]).map((share) => ({
+        ...share,
+        createdAt: new Date(share.createdAt),
+        expiresAt: share.expiresAt ? new Date(share.expiresAt) : null,
+        messages: share.messages.map((message) => ({ ...message, timestamp: new Date(message.timestamp) })),
+      }));
+    } catch {
+      return [];
+    }
+  };
+
+  const write = (shares: SharedChat[]) => {
+    localStorage.setItem(SHARES_KEY, JSON.stringify(shares));
+  };
+
+  const findOwn = (user: UserData, id: string) => {
+    const share = read().find((existing) => existing.id === id);
+    if (!share) throw new ShareUnavailableError("not_found");
+    if (share.owner !== user.username) throw new Error("Only the owner can change this link");
+    return share;
+  };
+
+  return {
+    list: async (user) => sortShares(read().filter((share) => share.owner === user.username)),
+
+    create: async (user, chat, options) => {
+      const share: SharedChat = {
+        ...createShareSnapshot(chat),
+        ...options,
+        id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 12)}`,
+        owner: user.username,
+        createdAt: new Date(),
+      };
+      write([...read(), share]);
+      return share;
+    },
+
+    update: async (user, id, options) => {
+      const share = { ...findOwn(user, id), ...options };
+      write(read().map((existing) => (existing.id === id ? share : existing)));
+      return share;
+    },
+
+    revoke: async (user, id) => {
+      findOwn(user, id);
+      write(read().filter((share) => share.id !== id));
+    },
+
+    get: async (id) => {
+      const share = read().find((existing) => existing.id === id);
+      if (!share) throw new ShareUnavailableError("not_found");
+      if (isShareExpired(share)) throw new ShareUnavailableError("expired");
+      return share.redactOwner ? { ...share, owner: undefined } : share;
+    },
+  };
+};
+
+// The server picks the id, checks ownership and leaves out redacted owners; it answers 404
+// for unknown or revoked links and 410 for expired ones.
+export const createHttpShareService = (): ShareService => ({
+  list: async () => sortShares(await apiClient.shares.list()),
+  create: (_user, chat, options) => apiClient.shares.create({ ...createShareSnapshot(chat), ...options }),
+  update: (_user, id, options) => apiClient.shares.update(id, options),
+  revoke: async (_user, id) => {
+    await apiClient.shares.revoke(id);
+  },
+  get: async (id) => {
+    try {
+      return await apiClient.shares.get(id);
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) throw new ShareUnavailableError("not_found");
+      if (error instanceof ApiError && error.status === 410) throw new ShareUnavailableError("expired");
+      throw error;
+    }
+  },
+});
+
+let shareService: ShareService | null = null;
+
+export const getShareService = (): ShareService => {
+  if (shareService) return shareService;
+
+  shareService = isApiConfigured() ? createHttpShareService() : createMockShareService();
+  return shareService;
+};
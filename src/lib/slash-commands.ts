@@ -0,0 +1,31 @@
+export type SlashCommandName = "new" | "clear" | "export" | "model" | "system" | "template";
+
+export interface SlashCommand {
+  name: SlashCommandName;
+  description: string;
+  // Shown after the command when it takes an argument, e.g. `/model <name>`.
+  argumentHint?: string;
+}
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+  { name: "new", description: "Start a new chat" },
+  { name: "clear", description: "Clear the messages in this chat" },
+  { name: "export", description: "Download this chat as Markdown" },
+  { name: "model", description: "Switch the model for this chat", argumentHint: "<name>" },
+  { name: "system", description: "Set this chat's system prompt (empty to clear)", argumentHint: "<prompt>" },
+  { name: "template", description: "Insert a prompt template" },
+];
+
+// Commands still being typed, e.g. "/mo" while the popup is open.
+export const getMatchingCommands = (text: string) => {
+  if (!/^\/\S*$/.test(text)) return [];
+  const query = text.slice(1).toLowerCase();
+  return SLASH_COMMANDS.filter((command) => command.name.startsWith(query));
+};
+
+// `/name argument` for a known command; anything else is sent as a normal message.
+export const parseSlashCommand = (text: string) => {
+  const match = /^\/(\w+)(?:\s+([\s\S]*))?$/.exec(text.trim());
+  const command = match && SLASH_COMMANDS.find((candidate) => candidate.name === match[1].toLowerCase());
+  return command ? { command, argument: (match[2] ?? "").trim() } : null;
+};
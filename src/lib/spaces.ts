@@ -0,0 +1,155 @@
+import { apiClient } from "@/lib/api-client";
+import { isApiConfigured } from "@/lib/api";
+import { hasPermission } from "@/lib/permissions";
+import type { QuotaPool } from "@/lib/quota";
+import type { SpaceMembership, SpaceRole, UserData } from "@/types/chat";
+
+export interface SpaceFolder {
+  id: string;
+  name: string;
+}
+
+// A group above the user, such as a course: owners (faculty) run it, members (students) join it.
+export interface Space {
+  id: string;
+  name: string;
+  // Members join by entering it; only owners see it.
+  joinCode: string;
+  owners: string[];
+  members: string[];
+  // Used by the space's chats that don't set their own system prompt.
+  defaultSystemPrompt?: string;
+  // Questions per day shared by everyone in the space; `null` for no shared limit.
+  dailyQuestionPool: number | null;
+  folders: SpaceFolder[];
+  createdAt: Date;
+}
+
+// What owners edit; the rest is managed by the service.
+export type SpaceDraft = Pick<Space, "name" | "defaultSystemPrompt" | "dailyQuestionPool" | "folders">;
+
+export interface SpaceService {
+  // Spaces the user owns or belongs to, by name.
+  list: (user: UserData) => Promise<Space[]>;
+  create: (user: UserData, draft: SpaceDraft) => Promise<Space>;
+  update: (user: UserData, id: string, draft: SpaceDraft) => Promise<Space>;
+  join: (user: UserData, joinCode: string) => Promise<Space>;
+  leave: (user: UserData, id: string) => Promise<void>;
+}
+
+export const canCreateSpaces = (user: UserData | null) => !!user && hasPermission(user.role, "spaces:manage");
+
+export const getSpaceRole = (user: UserData | null, spaceId: string): SpaceRole | null =>
+  user?.memberships?.find((membership) => membership.spaceId === spaceId)?.role ?? null;
+
+export const getMemberships = (username: string, spaces: Space[]): SpaceMembership[] =>
+  spaces
+    .map((space): SpaceMembership | null =>
+      space.owners.includes(username)
+        ? { spaceId: space.id, role: "owner" }
+        : space.members.includes(username)
+          ? { spaceId: space.id, role: "member" }
+          : null
+    )
+    .filter((membership): membership is SpaceMembership => !!membership);
+
+export const toQuotaPool = (space: Space): QuotaPool => ({ spaceId: space.id, dailyLimit: space.dailyQuestionPool });
+
+// Six characters without look-alikes (0/O, 1/I), easy to read out in class.
+const JOIN_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+const createJoinCode = () =>
+  Array.from({ length: 6 }, () => JOIN_CODE_ALPHABET[Math.floor(Math.random() * JOIN_CODE_ALPHABET.length)]).join("");
+
+const sortSpaces = (spaces: Space[]) => [...spaces].sort((a, b) => a.name.localeCompare(b.name));
+
+type StoredSpace = Omit<Space, "createdAt"> & { createdAt: string };
+
+// Shared by every account on this browser, so students can join a space made by faculty.
+const SPACES_KEY = "spaces";
+
+export const createMockSpaceService = (): SpaceService => {
+  const read = (): Space[] => {
+    try {
+      return (JSON.parse(localStorage.getItem(SPACES_KEY) ?? "[]") as StoredSpace[]).map((space) => ({
+        ...space,
+        createdAt: new Date(space.createdAt),
+      }));
+    } catch {
+      return [];
+    }
+  };
+
+  const write = (spaces: Space[]) => {
+    localStorage.setItem(SPACES_KEY, JSON.stringify(spaces));
+  };
+
+  const replace = (space: Space) => {
+    write(read().map((existing) => (existing.id === space.id ? space : existing)));
+    return space;
+  };
+
+  const find = (id: string) => {
+    const space = read().find((existing) => existing.id === id);
+    if (!space) throw new Error("This space no longer exists");
+    return space;
+  };
+
+  return {
+    list: async (user) =>
+      sortSpaces(read().filter((space) => space.owners.includes(user.username) || space.members.includes(user.username))),
+
+    create: async (user, draft) => {
+      if (!canCreateSpaces(user)) throw new Error("You don't have permission to create spaces");
+      const space: Space = {
+        ...draft,
+        id: `space-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+        joinCode: createJoinCode(),
+        owners: [user.username],
+        members: [],
+        createdAt: new Date(),
+      };
+      write([...read(), space]);
+      return space;
+    },
+
+    update: async (user, id, draft) => {
+      const space = find(id);
+      if (!space.owners.includes(user.username)) throw new Error("Only the space's owners can change it");
+      return replace({ ...space, ...draft });
+    },
+
+    join: async (user, joinCode) => {
+      const space = read().find((existing) => existing.joinCode === joinCode.trim().toUpperCase());
+      if (!space) throw new Error("No space has that join code");
+      if (space.owners.includes(user.username) || space.members.includes(user.username)) return space;
+      return replace({ ...space, members: [...space.members, user.username] });
+    },
+
+    leave: async (user, id) => {
+      const space = find(id);
+      if (space.owners.includes(user.username)) throw new Error("Owners can't leave their own space");
+      replace({ ...space, members: space.members.filter((member) => member !== user.username) });
+    },
+  };
+};
+
+// The server checks ownership and the spaces:manage permission itself.
+export const createHttpSpaceService = (): SpaceService => ({
+  list: async () => sortSpaces(await apiClient.spaces.list()),
+  create: (_user, draft) => apiClient.spaces.create(draft),
+  update: (_user, id, draft) => apiClient.spaces.update(id, draft),
+  join: (_user, joinCode) => apiClient.spaces.join(joinCode.trim().toUpperCase()),
+  leave: async (_user, id) => {
+    await apiClient.spaces.leave(id);
+  },
+});
+
+let spaceService: SpaceService | null = null;
+
+export const getSpaceService = (): SpaceService => {
+  if (spaceService) return spaceService;
+
+  spaceService = isApiConfigured() ? createHttpSpaceService() : createMockSpaceService();
+  return spaceService;
+};
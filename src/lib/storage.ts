@@ -0,0 +1,238 @@
+import type { z } from "zod";
+
+// One step of a migration chain: upgrades a single stored record by one version.
+export type Migration = (record: Record<string, unknown>) => Record<string, unknown>;
+
+export interface VersionedStoreOptions {
+  key: string;
+  // The layout written now. Data stored at a lower version is migrated when read.
+  version: number;
+  // migrations[n - 1] upgrades a record from version n to n + 1, so there is one fewer than
+  // `version`. Data stored as a bare array counts as version 1.
+  migrations: Migration[];
+  // Checked after migrating; records that fail are quarantined rather than loaded.
+  schema: z.ZodTypeAny;
+  // Property of the stored envelope (`{ version, [field]: [...] }`) holding the records.
+  field: string;
+  // How long writes are held back so a burst of changes is serialized once.
+  writeDelayMs?: number;
+}
+
+export interface VersionedStore<T> {
+  // The current records. They come from memory after the first read, so don't mutate them.
+  read: () => T[];
+  // Replaces the records; they are saved after `writeDelayMs` or on `flush`. Resolves once
+  // saved and rejects with StorageFullError when there was no room.
+  write: (records: T[]) => Promise<void>;
+  // Saves a pending write right away.
+  flush: () => void;
+  // How many records were quarantined since the last call, so the UI can report them once.
+  takeQuarantinedCount: () => number;
+  // Removes the stored value, e.g. once the records live somewhere else.
+  clear: () => void;
+}
+
+export class StorageFullError extends Error {
+  constructor() {
+    super("Browser storage is full. Delete old chats or large attachments to make room.");
+    this.name = "StorageFullError";
+  }
+}
+
+// Browsers name the error differently; old Firefox used NS_ERROR_DOM_QUOTA_REACHED.
+export const isQuotaExceededError = (error: unknown) =>
+  error instanceof DOMException &&
+  (error.name === "QuotaExceededError" || error.name === "NS_ERROR_DOM_QUOTA_REACHED" || error.code === 22);
+
+export const toStorageError = (error: unknown) => (isQuotaExceededError(error) ? new StorageFullError() : error);
+
+// Something that couldn't be loaded, kept under `<key>_quarantine` for inspection or repair.
+export interface QuarantinedRecord {
+  // The record as stored, or the raw text when the whole value wasn't JSON.
+  record: unknown;
+  version: number;
+  reason: string;
+  quarantinedAt: string;
+}
+
+const DEFAULT_WRITE_DELAY_MS = 500;
+
+export const getQuarantineKey = (key: string) => `${key}_quarantine`;
+
+export const getBackupKey = (key: string) => `${key}_backup`;
+
+export const readQuarantine = (key: string): QuarantinedRecord[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(getQuarantineKey(key)) ?? "[]");
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+};
+
+// Returns false when the records couldn't be set aside, so the caller must keep the originals.
+const quarantine = (key: string, records: QuarantinedRecord[]) => {
+  if (records.length === 0) return true;
+  try {
+    localStorage.setItem(getQuarantineKey(key), JSON.stringify([...readQuarantine(key), ...records]));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const describeIssue = (error: z.ZodError) => {
+  const issue = error.issues[0];
+  return issue ? `${issue.path.join(".") || "record"}: ${issue.message}` : "Invalid record";
+};
+
+const createVersionedStore = <T>({
+  key,
+  version,
+  migrations,
+  schema,
+  field,
+  writeDelayMs = DEFAULT_WRITE_DELAY_MS,
+}: VersionedStoreOptions): VersionedStore<T> => {
+  let records: T[] | null = null;
+  let quarantinedCount = 0;
+  let dirty = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  // Writers waiting for the pending write to be saved.
+  let waiting: { resolve: () => void; reject: (error: unknown) => void }[] = [];
+
+  // Returns the records that could be read and how many others were quarantined.
+  const load = (): { loaded: T[]; quarantined: number } => {
+    const saved = localStorage.getItem(key);
+    if (!saved) return { loaded: [], quarantined: 0 };
+    const quarantinedAt = new Date().toISOString();
+
+    let data: unknown;
+    try {
+      data = JSON.parse(saved);
+    } catch {
+      if (quarantine(key, [{ record: saved, version: 0, reason: "Not valid JSON", quarantinedAt }])) localStorage.removeItem(key);
+      return { loaded: [], quarantined: 1 };
+    }
+
+    const storedVersion = Array.isArray(data) ? 1 : isRecord(data) && typeof data.version === "number" ? data.version : 0;
+    const stored = Array.isArray(data) ? data : isRecord(data) ? data[field] : undefined;
+    if (storedVersion < 1 || storedVersion > version || !Array.isArray(stored)) {
+      // Unknown layouts, including ones from a newer version of the app, are set aside whole.
+      const reason = `Unsupported layout (version ${storedVersion})`;
+      if (quarantine(key, [{ record: data, version: storedVersion, reason, quarantinedAt }])) localStorage.removeItem(key);
+      return { loaded: [], quarantined: 1 };
+    }
+
+    const loaded: T[] = [];
+    const rejected: QuarantinedRecord[] = [];
+    for (const record of stored) {
+      try {
+        if (!isRecord(record)) throw new Error("Not an object");
+        const migrated = migrations.slice(storedVersion - 1, version - 1).reduce((current, migrate) => migrate(current), record);
+        const parsed = schema.safeParse(migrated);
+        if (parsed.success) loaded.push(parsed.data);
+        else rejected.push({ record, version: storedVersion, reason: describeIssue(parsed.error), quarantinedAt });
+      } catch (error) {
+        rejected.push({ record, version: storedVersion, reason: error instanceof Error ? error.message : "Migration failed", quarantinedAt });
+      }
+    }
+    // Rewritten only once the rejected records are safe in quarantine.
+    if ((storedVersion < version || rejected.length > 0) && quarantine(key, rejected)) {
+      try {
+        // The old value is kept as it was, in case an upgrade ever needs undoing by hand.
+        if (!localStorage.getItem(getBackupKey(key))) localStorage.setItem(getBackupKey(key), saved);
+        localStorage.setItem(key, JSON.stringify({ version, [field]: loaded }));
+      } catch {
+        // Out of space for the upgraded copy: the old value stays and is migrated again next time.
+      }
+    }
+    return { loaded, quarantined: rejected.length };
+  };
+
+  const flush = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    const writers = waiting;
+    waiting = [];
+    try {
+      if (dirty && records) localStorage.setItem(key, JSON.stringify({ version, [field]: records }));
+      dirty = false;
+    } catch (error) {
+      const storageError = toStorageError(error);
+      writers.forEach((writer) => writer.reject(storageError));
+      throw storageError;
+    }
+    writers.forEach((writer) => writer.resolve());
+  };
+
+  // A failed delayed write stays pending in memory and is retried with the next one. Writers
+  // waiting on it get the error; nobody is left to tell when it's flushed as the page closes.
+  const flushLater = () => {
+    try {
+      flush();
+    } catch {
+      // Already passed to the writers.
+    }
+  };
+
+  if (typeof window !== "undefined") {
+    // Another tab changed the value: reload it on the next read unless this tab has unsaved changes.
+    window.addEventListener("storage", (event) => {
+      if (event.key === key && !dirty) records = null;
+    });
+    window.addEventListener("pagehide", flushLater);
+    document.addEventListener("visibilitychange", () => {
+      if (document.visibilityState === "hidden") flushLater();
+    });
+  }
+
+  return {
+    read: () => {
+      if (!records) {
+        const { loaded, quarantined } = load();
+        records = loaded;
+        quarantinedCount += quarantined;
+      }
+      return records;
+    },
+
+    write: (next) =>
+      new Promise<void>((resolve, reject) => {
+        records = next;
+        dirty = true;
+        waiting.push({ resolve, reject });
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(flushLater, writeDelayMs);
+      }),
+
+    flush,
+
+    takeQuarantinedCount: () => {
+      const count = quarantinedCount;
+      quarantinedCount = 0;
+      return count;
+    },
+
+    clear: () => {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      waiting.forEach((writer) => writer.resolve());
+      waiting = [];
+      records = [];
+      dirty = false;
+      localStorage.removeItem(key);
+    },
+  };
+};
+
+const stores = new Map<string, VersionedStore<unknown>>();
+
+// One store per key, so every reader in the tab shares its records and pending write.
+export const getVersionedStore = <T>(options: VersionedStoreOptions): VersionedStore<T> => {
+  if (!stores.has(options.key)) stores.set(options.key, createVersionedStore<unknown>(options));
+  return stores.get(options.key) as VersionedStore<T>;
+};
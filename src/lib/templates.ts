@@ -0,0 +1,112 @@
+import { apiClient } from "@/lib/api-client";
+import { isApiConfigured } from "@/lib/api";
+import { hasPermission } from "@/lib/permissions";
+import type { UserData } from "@/types/chat";
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  // Prompt text with `{{variable}}` placeholders.
+  body: string;
+  tags: string[];
+  author: string;
+  // Drafts are only visible to their author; published templates to everyone.
+  published: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface TemplateService {
+  // The user's own templates plus everything published.
+  list: (user: UserData) => Promise<PromptTemplate[]>;
+  save: (user: UserData, template: PromptTemplate) => Promise<PromptTemplate>;
+  remove: (user: UserData, id: string) => Promise<void>;
+}
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+// Variable names in order of first appearance.
+export const getTemplateVariables = (body: string) => [
+  ...new Set(Array.from(body.matchAll(VARIABLE_PATTERN), (match) => match[1])),
+];
+
+export const fillTemplate = (body: string, values: Record<string, string>) =>
+  body.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+
+export const canManageTemplates = (user: UserData | null) => !!user && hasPermission(user.role, "templates:manage");
+
+export const parseTags = (value: string) => [
+  ...new Set(value.split(",").map((tag) => tag.trim().toLowerCase()).filter(Boolean)),
+];
+
+const sortTemplates = (templates: PromptTemplate[]) =>
+  [...templates].sort((a, b) => a.name.localeCompare(b.name));
+
+type StoredTemplate = Omit<PromptTemplate, "createdAt" | "updatedAt"> & { createdAt: string; updatedAt: string };
+
+// Shared by everyone signing in on this browser, so published templates reach other accounts.
+const TEMPLATES_KEY = "promptTemplates";
+
+export const createMockTemplateService = (): TemplateService => {
+  const read = (): PromptTemplate[] => {
+    try {
+      return (JSON.parse(localStorage.getItem(TEMPLATES_KEY) ?? "[]") as StoredTemplate[]).map((template) => ({
+        ...template,
+        createdAt: new Date(template.createdAt),
+        updatedAt: new Date(template.updatedAt),
+      }));
+    } catch {
+      return [];
+    }
+  };
+
+  const write = (templates: PromptTemplate[]) => {
+    localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+  };
+
+  const findOwn = (user: UserData, id: string) => {
+    const template = read().find((existing) => existing.id === id);
+    if (template && template.author !== user.username) {
+      throw new Error("Only the author can change this template");
+    }
+    return template;
+  };
+
+  return {
+    list: async (user) =>
+      sortTemplates(read().filter((template) => template.published || template.author === user.username)),
+
+    save: async (user, template) => {
+      if (!canManageTemplates(user)) throw new Error("You don't have permission to manage templates");
+      const existing = findOwn(user, template.id);
+      const saved = { ...template, author: user.username, createdAt: existing?.createdAt ?? new Date(), updatedAt: new Date() };
+      write([...read().filter((other) => other.id !== template.id), saved]);
+      return saved;
+    },
+
+    remove: async (user, id) => {
+      if (!canManageTemplates(user)) throw new Error("You don't have permission to manage templates");
+      findOwn(user, id);
+      write(read().filter((template) => template.id !== id));
+    },
+  };
+};
+
+// The server decides visibility and authorship; the user argument is only used by the mock.
+export const createHttpTemplateService = (): TemplateService => ({
+  list: async () => sortTemplates(await apiClient.templates.list()),
+  save: (_user, template) => apiClient.templates.save(template),
+  remove: async (_user, id) => {
+    await apiClient.templates.remove(id);
+  },
+});
+
+let templateService: TemplateService | null = null;
+
+export const getTemplateService = (): TemplateService => {
+  if (templateService) return templateService;
+
+  templateService = isApiConfigured() ? createHttpTemplateService() : createMockTemplateService();
+  return templateService;
+};
@@ -0,0 +1,199 @@
+import { z } from "zod";
+import { attachmentSchema, chatSettingsSchema, dateSchema } from "@/lib/api";
+import { getActiveBranch } from "@/lib/message-tree";
+import type { ChatFolder, ChatTag } from "@/lib/organizer";
+import type { Space } from "@/lib/spaces";
+import type { Attachment, ChatHistory, Message } from "@/types/chat";
+
+// Bump when the exported JSON changes shape, and keep importing older versions.
+export const TRANSCRIPT_VERSION = 1;
+
+const transcriptMessageSchema = z.object({
+  id: z.string(),
+  role: z.enum(["user", "assistant"]),
+  content: z.string(),
+  timestamp: dateSchema,
+  interrupted: z.boolean().optional(),
+  parentId: z.string().nullable().optional(),
+  attachments: z.array(attachmentSchema).optional(),
+});
+
+const transcriptChatSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  createdAt: dateSchema,
+  updatedAt: dateSchema.optional(),
+  currentLeafId: z.string().optional(),
+  settings: chatSettingsSchema.optional(),
+  titleLocked: z.boolean().optional(),
+  pinned: z.boolean().optional(),
+  archived: z.boolean().optional(),
+  // Only kept on import where they still exist; see mergeImportedChats.
+  spaceId: z.string().optional(),
+  folderId: z.string().optional(),
+  tagIds: z.array(z.string()).optional(),
+  messages: z.array(transcriptMessageSchema),
+});
+
+export const transcriptFileSchema = z.object({
+  version: z.literal(TRANSCRIPT_VERSION),
+  exportedAt: dateSchema,
+  chats: z.array(transcriptChatSchema),
+});
+
+interface TranscriptMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  timestamp: Date;
+  interrupted?: boolean;
+  parentId?: string | null;
+  attachments?: Attachment[];
+}
+
+interface TranscriptChat extends Omit<ChatHistory, "messages" | "updatedAt"> {
+  updatedAt?: Date;
+  messages: TranscriptMessage[];
+}
+
+export type TranscriptFormat = "markdown" | "json";
+
+export class TranscriptImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TranscriptImportError";
+  }
+}
+
+const roleLabel = (message: Message) => (message.isBot ? "Assistant" : "You");
+
+// Markdown shows the branch on screen; the JSON export keeps every branch.
+const chatToMarkdown = (chat: ChatHistory) =>
+  [
+    `# ${chat.title}`,
+    `_Created ${chat.createdAt.toLocaleString()} · Updated ${chat.updatedAt.toLocaleString()}_`,
+    ...getActiveBranch(chat)
+      .filter((message) => message.content || message.attachments?.length)
+      .map((message) =>
+        [
+          `**${roleLabel(message)}** · ${message.timestamp.toLocaleString()}${message.interrupted ? " · _interrupted_" : ""}`,
+          message.content,
+          message.attachments?.map((attachment) => `- Attachment: ${attachment.name}`).join("\n"),
+        ].filter(Boolean).join("\n\n"),
+      ),
+  ].join("\n\n");
+
+export const toMarkdown = (chats: ChatHistory[]) => `${chats.map(chatToMarkdown).join("\n\n---\n\n")}\n`;
+
+export const toTranscriptJson = (chats: ChatHistory[]) =>
+  JSON.stringify(
+    {
+      version: TRANSCRIPT_VERSION,
+      exportedAt: new Date().toISOString(),
+      chats: chats.map(({ messages, ...chat }) => ({
+        ...chat,
+        messages: messages.map(({ isBot, ...message }) => ({ ...message, role: isBot ? "assistant" : "user" })),
+      })),
+    },
+    null,
+    2,
+  );
+
+export const parseTranscriptJson = (text: string): ChatHistory[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new TranscriptImportError("The file is not valid JSON");
+  }
+
+  const version = (data as { version?: unknown } | null)?.version;
+  if (typeof version === "number" && version !== TRANSCRIPT_VERSION) {
+    throw new TranscriptImportError(`Unsupported export version ${version}`);
+  }
+
+  const parsed = transcriptFileSchema.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new TranscriptImportError(
+      issue ? `Not a chat export: ${issue.path.join(".") || "file"} ${issue.message.toLowerCase()}` : "Not a chat export",
+    );
+  }
+
+  return (parsed.data.chats as TranscriptChat[]).map(({ messages, ...chat }) => ({
+    ...chat,
+    updatedAt: chat.updatedAt ?? chat.createdAt,
+    messages: messages.map(({ role, ...message }) => ({ ...message, isBot: role === "assistant" })),
+  }));
+};
+
+const sameChat = (a: ChatHistory, b: ChatHistory) =>
+  a.title === b.title &&
+  a.messages.length === b.messages.length &&
+  a.messages.every((message, i) => message.content === b.messages[i].content);
+
+// What an imported chat can still be placed in: the user's spaces (with their folders) and the
+// user's own folders and tags.
+export interface ImportTargets {
+  spaces: Pick<Space, "id" | "folders">[];
+  folders: ChatFolder[];
+  tags: ChatTag[];
+}
+
+// A space, folder or tag that's gone (or belongs to someone else) is dropped, so the chat lands
+// unfiled among the personal chats rather than somewhere hidden.
+const placeImportedChat = (chat: ChatHistory, targets: ImportTargets): ChatHistory => {
+  const space = chat.spaceId ? targets.spaces.find(({ id }) => id === chat.spaceId) : undefined;
+  const folders = chat.spaceId ? space?.folders ?? [] : targets.folders;
+  return {
+    ...chat,
+    spaceId: space?.id,
+    folderId: folders.some(({ id }) => id === chat.folderId) ? chat.folderId : undefined,
+    tagIds: (chat.tagIds ?? []).filter((tagId) => targets.tags.some(({ id }) => id === tagId)),
+  };
+};
+
+// Imported chats keep their id unless it's taken by a different chat, in which case they get a
+// fresh one; re-importing an identical chat is skipped.
+export const mergeImportedChats = (
+  existing: ChatHistory[],
+  imported: ChatHistory[],
+  newId: () => string,
+  targets: ImportTargets,
+) => {
+  const byId = new Map(existing.map((chat) => [chat.id, chat]));
+  const added: ChatHistory[] = [];
+  let skipped = 0;
+
+  for (const chat of imported) {
+    const current = byId.get(chat.id);
+    if (current && sameChat(current, chat)) {
+      skipped++;
+      continue;
+    }
+    const placed = placeImportedChat(chat, targets);
+    const merged = current ? { ...placed, id: newId() } : placed;
+    byId.set(merged.id, merged);
+    added.push(merged);
+  }
+  return { added, skipped };
+};
+
+const slugify = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 40) || "chat";
+
+export const getTranscriptFileName = (chats: ChatHistory[], format: TranscriptFormat) => {
+  const base = chats.length === 1 ? slugify(chats[0].title) : `chats-${new Date().toISOString().slice(0, 10)}`;
+  return `${base}.${format === "markdown" ? "md" : "json"}`;
+};
+
+export const downloadTranscript = (chats: ChatHistory[], format: TranscriptFormat) => {
+  const content = format === "markdown" ? toMarkdown(chats) : toTranscriptJson(chats);
+  const type = format === "markdown" ? "text/markdown" : "application/json";
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = getTranscriptFileName(chats, format);
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url));
+};
@@ -0,0 +1,204 @@
+import { Link } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useSession } from "@/hooks/use-session";
+import { getAdminService, type AdminUser } from "@/lib/admin";
+import { getErrorMessage } from "@/lib/api";
+import { getQuotaPolicyTable } from "@/lib/quota-policy";
+import { hasPermission } from "@/lib/permissions";
+import { ArrowLeft, RotateCcw, Plus, Shield } from "lucide-react";
+
+const USAGE_DAYS = 14;
+const GRANT_AMOUNT = 5;
+
+const dailyChartConfig = {
+  questions: { label: "Questions", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const roleChartConfig = {
+  usedToday: { label: "Questions today", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const Admin = () => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user: currentUser } = useSession();
+  const canManageUsers = hasPermission(currentUser.role, "users:manage");
+  const roles = Object.keys(getQuotaPolicyTable().roles);
+
+  const { data: users = [], isLoading: usersLoading } = useQuery({
+    queryKey: ["admin", "users"],
+    queryFn: () => getAdminService().listUsers(),
+  });
+
+  const { data: usage = [] } = useQuery({
+    queryKey: ["admin", "usage", USAGE_DAYS],
+    queryFn: () => getAdminService().getUsage(USAGE_DAYS),
+  });
+
+  const userAction = useMutation({
+    mutationFn: (action: () => Promise<void>) => action(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin"] });
+      queryClient.invalidateQueries({ queryKey: ["quota"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to update user"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const usageByRole = roles.map((role) => ({
+    role,
+    usedToday: users.filter((user) => user.role === role).reduce((sum, user) => sum + user.usedToday, 0),
+  }));
+  const questionsToday = users.reduce((sum, user) => sum + user.usedToday, 0);
+
+  const formatUsage = (user: AdminUser) =>
+    user.dailyLimit === null ? `${user.usedToday} / Unlimited` : `${user.usedToday} / ${user.dailyLimit}`;
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <div className="p-4 border-b bg-card flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/chat">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to chat
+            </Link>
+          </Button>
+          <h1 className="text-lg font-semibold text-foreground flex items-center">
+            <Shield className="h-5 w-5 mr-2 text-primary" />
+            Admin dashboard
+          </h1>
+        </div>
+        <div className="text-sm text-muted-foreground">
+          {users.length} users · {questionsToday} questions today
+        </div>
+      </div>
+
+      <div className="max-w-6xl mx-auto p-4 space-y-4">
+        <div className="grid gap-4 md:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Daily questions</CardTitle>
+              <CardDescription>All users, last {USAGE_DAYS} days</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={dailyChartConfig} className="h-64 w-full">
+                <BarChart data={usage}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="date" tickLine={false} axisLine={false} tickFormatter={(date: string) => date.slice(5)} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="questions" fill="var(--color-questions)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Usage by role</CardTitle>
+              <CardDescription>Questions asked today</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={roleChartConfig} className="h-64 w-full">
+                <BarChart data={usageByRole}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="role" tickLine={false} axisLine={false} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="usedToday" fill="var(--color-usedToday)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Users</CardTitle>
+            <CardDescription>Change roles, reset today's usage or grant extra questions for today</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Today</TableHead>
+                  <TableHead>Last seen</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                      {usersLoading ? "Loading users..." : "No users yet"}
+                    </TableCell>
+                  </TableRow>
+                )}
+                {users.map((user) => (
+                  <TableRow key={user.username}>
+                    <TableCell className="font-medium">{user.username}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={user.role}
+                        onValueChange={(role) => userAction.mutate(() => getAdminService().setRole(user.username, role))}
+                        disabled={!canManageUsers || userAction.isPending}
+                      >
+                        <SelectTrigger className="w-32 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {roles.map((role) => (
+                            <SelectItem key={role} value={role}>{role}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>{formatUsage(user)}</TableCell>
+                    <TableCell className="text-muted-foreground">{user.lastSeenAt.toLocaleString()}</TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => userAction.mutate(() => getAdminService().resetUsage(user.username))}
+                        disabled={!canManageUsers || userAction.isPending}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Reset
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => userAction.mutate(() => getAdminService().grantQuota(user.username, GRANT_AMOUNT))}
+                        disabled={!canManageUsers || userAction.isPending || user.dailyLimit === null}
+                      >
+                        <Plus className="h-4 w-4 mr-1" />
+                        {GRANT_AMOUNT} questions
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Admin;
@@ -1,9 +1,18 @@
-import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useEffect, useMemo, useState, useRef } from "react";
+import { Link, useLocation, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ToastAction } from "@/components/ui/toast";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
 import { 
   MessageSquare, 
@@ -13,393 +22,1420 @@ import {
   User, 
   Bot,
   Menu,
-  X
+  X,
+  Square,
+  Shield,
+  ChevronRight,
+  Search,
+  Download,
+  FileJson,
+  FileText,
+  Printer,
+  Upload,
+  Pencil,
+  RefreshCw,
+  Paperclip,
+  SlidersHorizontal,
+  BookText,
+  CloudOff
 } from "lucide-react";
+import { getChatProvider, toProviderMessages } from "@/lib/chat-provider";
+import { getErrorMessage, isAbortError } from "@/lib/api";
+import { useSession } from "@/hooks/use-session";
+import { useQuota } from "@/hooks/use-quota";
+import { useChatHistory } from "@/hooks/use-chat-history";
+import { useTemplates } from "@/hooks/use-templates";
+import { useSpaces } from "@/hooks/use-spaces";
+import { useChatOrganizer } from "@/hooks/use-chat-organizer";
+import MarkdownMessage from "@/components/chat/MarkdownMessage";
+import ChatListItem from "@/components/chat/ChatListItem";
+import SearchPalette from "@/components/chat/SearchPalette";
+import PrintTranscript from "@/components/chat/PrintTranscript";
+import BranchSwitcher from "@/components/chat/BranchSwitcher";
+import AttachmentList from "@/components/chat/AttachmentList";
+import Composer from "@/components/chat/Composer";
+import ChatSettingsSheet from "@/components/chat/ChatSettingsSheet";
+import ShareDialog from "@/components/chat/ShareDialog";
+import FolderSection from "@/components/chat/FolderSection";
+import ChatFilters from "@/components/chat/ChatFilters";
+import ChatTagsDialog from "@/components/chat/ChatTagsDialog";
+import StorageMeter from "@/components/chat/StorageMeter";
+import SpaceSwitcher from "@/components/spaces/SpaceSwitcher";
+import SpaceSettingsDialog from "@/components/spaces/SpaceSettingsDialog";
+import JoinSpaceDialog from "@/components/spaces/JoinSpaceDialog";
+import TemplatePicker from "@/components/templates/TemplatePicker";
+import TemplateFillDialog from "@/components/templates/TemplateFillDialog";
+import { ATTACHMENT_ACCEPT, MAX_ATTACHMENTS, readAttachment } from "@/lib/attachments";
+import { hasPermission } from "@/lib/permissions";
+import { QuotaExceededError, describeLimit, formatTimeUntil } from "@/lib/quota";
+import { getQuotaPolicy } from "@/lib/quota-policy";
+import { findChatModel, getChatModels } from "@/lib/models";
+import type { SlashCommandName } from "@/lib/slash-commands";
+import { getTemplateVariables, type PromptTemplate } from "@/lib/templates";
+import { canCreateSpaces, getSpaceRole, toQuotaPool, type SpaceDraft } from "@/lib/spaces";
+import {
+  ALL_FOLDERS,
+  CHAT_DRAG_TYPE,
+  UNFILED,
+  addFolder,
+  addTag,
+  moveFolder,
+  removeFolder,
+  removeTag,
+  renameFolder,
+  type ChatOrganizer,
+  type TagColor,
+} from "@/lib/organizer";
+import { getBranch, getLatestLeaf, getParentId, getSiblingMap } from "@/lib/message-tree";
+import { downloadTranscript, mergeImportedChats, parseTranscriptJson, type TranscriptFormat } from "@/lib/transcript";
+import type { Attachment, ChatHistory, ChatSettings, Message } from "@/types/chat";
 
-interface Message {
-  id: string;
-  content: string;
-  isBot: boolean;
-  timestamp: Date;
-}
-
-interface ChatHistory {
-  id: string;
-  title: string;
-  messages: Message[];
-  createdAt: Date;
-}
-
-interface UserData {
-  username: string;
-  role: string;
-  questionsToday: number;
-}
+// Remembers the space picked in the sidebar across reloads.
+const ACTIVE_SPACE_KEY = "activeSpace";
 
 const Chat = () => {
-  const [user, setUser] = useState<UserData | null>(null);
   const [currentMessage, setCurrentMessage] = useState("");
-  const [chatHistory, setChatHistory] = useState<ChatHistory[]>([]);
   const [activeChat, setActiveChat] = useState<string | null>(null);
-  const [currentMessages, setCurrentMessages] = useState<Message[]>([]);
+  // Every message of the chat, all branches; `leafId` picks the branch on screen.
+  const [chatMessages, setChatMessages] = useState<Message[]>([]);
+  // Stored messages of the open chat before the loaded ones; see ChatHistory.olderMessageCount.
+  const [olderMessageCount, setOlderMessageCount] = useState(0);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [leafId, setLeafId] = useState<string | null>(null);
+  // Settings of the chat on screen, kept here too so a new chat can have them before it's saved.
+  const [chatSettings, setChatSettings] = useState<ChatSettings>({});
+  const [editingMessage, setEditingMessage] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState("");
+  const [pendingAttachments, setPendingAttachments] = useState<Attachment[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(true);
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [searchChats, setSearchChats] = useState<ChatHistory[] | null>(null);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [highlightedMessage, setHighlightedMessage] = useState<string | null>(null);
+  const [printChats, setPrintChats] = useState<ChatHistory[]>([]);
+  const [sharingChat, setSharingChat] = useState<ChatHistory | null>(null);
+  const [activeSpaceId, setActiveSpaceId] = useState<string | null>(() => localStorage.getItem(ACTIVE_SPACE_KEY));
+  const [spaceDialog, setSpaceDialog] = useState<"new" | "edit" | null>(null);
+  const [joinSpaceOpen, setJoinSpaceOpen] = useState(false);
+  const [folderFilter, setFolderFilter] = useState(ALL_FOLDERS);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [newFolderId, setNewFolderId] = useState<string | null>(null);
+  const [taggingChatId, setTaggingChatId] = useState<string | null>(null);
+  const [templatePickerOpen, setTemplatePickerOpen] = useState(false);
+  const [fillingTemplate, setFillingTemplate] = useState<PromptTemplate | null>(null);
+  const streamController = useRef<AbortController | null>(null);
+  // Bumped whenever another chat, or a blank new one, is put on screen, so a reply that ends
+  // afterwards is saved to its own chat without touching the one showing by then.
+  const chatView = useRef(0);
+  const importInput = useRef<HTMLInputElement>(null);
+  const attachInput = useRef<HTMLInputElement>(null);
   const navigate = useNavigate();
+  const location = useLocation();
   const { toast } = useToast();
+  const { user, logout } = useSession();
+  const username = user?.username;
+  const { spaces, createSpace, updateSpace, joinSpace, leaveSpace } = useSpaces();
+  const activeSpace = spaces.find((space) => space.id === activeSpaceId) ?? null;
+  const spaceRole = activeSpace ? getSpaceRole(user, activeSpace.id) : null;
+  const quota = useQuota(user, activeSpace ? toQuotaPool(activeSpace) : undefined);
+  const {
+    chats: chatHistory,
+    isLoading: isHistoryLoading,
+    syncError,
+    saveChat,
+    removeChat,
+    loadOlderMessages,
+    getFullChats,
+    takeQuarantinedCount,
+  } = useChatHistory(username);
+  const { templates } = useTemplates(user);
+  const { folders: ownFolders, tags, updateOrganizer } = useChatOrganizer(username);
+  // Chats of a space the user has left fall back to their personal chats.
+  const getChatSpaceId = (chat: ChatHistory) =>
+    chat.spaceId && spaces.some((space) => space.id === chat.spaceId) ? chat.spaceId : null;
+  const spaceChats = chatHistory.filter((chat) => getChatSpaceId(chat) === (activeSpace?.id ?? null));
+  // Inside a space chats go in the space's folders, elsewhere in the user's own.
+  const scopeFolders = activeSpace ? activeSpace.folders : ownFolders;
+  const isFiled = (chat: ChatHistory) => scopeFolders.some((folder) => folder.id === chat.folderId);
+  const isFiltering = folderFilter !== ALL_FOLDERS || tagFilter.length > 0;
+  const matchesFilters = (chat: ChatHistory) =>
+    (folderFilter === ALL_FOLDERS || (folderFilter === UNFILED ? !isFiled(chat) : chat.folderId === folderFilter)) &&
+    (tagFilter.length === 0 || tagFilter.some((tagId) => chat.tagIds?.includes(tagId)));
+  const visibleChats = spaceChats.filter(matchesFilters);
+  const pinnedChats = visibleChats.filter((chat) => chat.pinned && !chat.archived);
+  const recentChats = visibleChats.filter((chat) => !chat.pinned && !chat.archived && !isFiled(chat));
+  const archivedChats = visibleChats.filter((chat) => chat.archived);
+  const taggingChat = chatHistory.find((chat) => chat.id === taggingChatId) ?? null;
+  // The space's default prompt applies until the chat sets its own.
+  const requestSettings: ChatSettings = {
+    ...chatSettings,
+    systemPrompt: chatSettings.systemPrompt ?? activeSpace?.defaultSystemPrompt,
+  };
+  const currentMessages = useMemo(() => getBranch(chatMessages, leafId), [chatMessages, leafId]);
+  const siblingMap = useMemo(() => getSiblingMap(chatMessages), [chatMessages]);
+  const lastMessage = currentMessages[currentMessages.length - 1];
+  const sentMessages = useMemo(
+    () => currentMessages.filter((message) => !message.isBot && message.content).map((message) => message.content),
+    [currentMessages]
+  );
 
   useEffect(() => {
-    const userData = localStorage.getItem("user");
-    if (!userData) {
-      navigate("/");
-      return;
-    }
-    
-    const parsedUser = JSON.parse(userData);
-    setUser(parsedUser);
-    
-    // Load chat history from localStorage
-    const savedHistory = localStorage.getItem(`chatHistory_${parsedUser.username}`);
-    if (savedHistory) {
-      const parsedHistory = JSON.parse(savedHistory);
-      // Convert string dates back to Date objects
-      const historyWithDates = parsedHistory.map((chat: any) => ({
-        ...chat,
-        createdAt: new Date(chat.createdAt),
-        messages: chat.messages.map((msg: any) => ({
-          ...msg,
-          timestamp: new Date(msg.timestamp)
-        }))
-      }));
-      setChatHistory(historyWithDates);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setSearchOpen((open) => !open);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  // Scroll to a message picked from search once its chat has rendered, then fade the highlight.
+  useEffect(() => {
+    if (!highlightedMessage) return;
+    document.getElementById(`message-${highlightedMessage}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    const timer = setTimeout(() => setHighlightedMessage(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessage, currentMessages]);
+
+  // Chats that couldn't be read are kept aside in browser storage rather than lost.
+  useEffect(() => {
+    if (isHistoryLoading) return;
+    const quarantined = takeQuarantinedCount();
+    if (quarantined > 0) {
+      toast({
+        title: "Some chats couldn't be loaded",
+        description: `${quarantined} unreadable ${quarantined === 1 ? "entry was" : "entries were"} set aside in browser storage.`,
+        variant: "destructive",
+      });
     }
-  }, [navigate]);
+  }, [isHistoryLoading, takeQuarantinedCount, toast]);
+
+  // Search needs every message, not just the newest page of long chats.
+  useEffect(() => {
+    if (!searchOpen) return;
+    let cancelled = false;
+    getFullChats(chatHistory)
+      .then((chats) => !cancelled && setSearchChats(chats))
+      .catch(() => !cancelled && setSearchChats(null));
+    return () => {
+      cancelled = true;
+    };
+  }, [searchOpen, chatHistory, getFullChats]);
+
+  useEffect(() => {
+    if (activeSpaceId) localStorage.setItem(ACTIVE_SPACE_KEY, activeSpaceId);
+    else localStorage.removeItem(ACTIVE_SPACE_KEY);
+  }, [activeSpaceId]);
+
+  // Print once the transcript view has rendered; the dialog blocks until it's closed.
+  useEffect(() => {
+    if (printChats.length === 0) return;
+    window.print();
+    setPrintChats([]);
+  }, [printChats]);
+
+  // "Use" on the templates page lands here with the template to fill in and insert.
+  const requestedTemplateId = (location.state as { templateId?: string } | null)?.templateId;
+  useEffect(() => {
+    const template = requestedTemplateId && templates.find((t) => t.id === requestedTemplateId);
+    if (!template) return;
+    setFillingTemplate(template);
+    navigate(location.pathname, { replace: true, state: null });
+  }, [requestedTemplateId, templates, navigate, location.pathname]);
 
   const canAskQuestion = () => {
     if (!user) return false;
-    if (user.role === "admin") return true;
-    return user.questionsToday < 10;
+    return quota.canAsk;
   };
 
   const getQuestionLimit = () => {
-    if (!user) return "";
-    if (user.role === "admin") return "Unlimited";
-    return `${user.questionsToday}/10 today`;
+    if (!user || !quota.status) return "";
+    const { day } = quota.status;
+    if (day.limit === null) return "Unlimited";
+    return `${day.used}/${day.limit} today`;
   };
 
-const generateChatId = (): string => {
-    return 'chat-' + Date.now() + '-' + Math.random().toString(36).substr(2, 9);
+  const getPoolLimit = () => {
+    const pool = quota.status?.pool;
+    if (!pool || pool.limit === null) return "";
+    return `${pool.used}/${pool.limit} shared today`;
   };
 
-  const generateBotResponse = (userMessage: string): string => {
-    // Simple mock responses
-    const responses = [
-      "I understand your question about: " + userMessage.slice(0, 30) + "... Let me help you with that.",
-      "That's an interesting point! Here's what I think about " + userMessage.slice(0, 20) + "...",
-      "Based on your question, I can provide some insights on this topic.",
-      "Thank you for asking! This is a great question that requires careful consideration.",
-      "I can help you with that. Let me break down the information for you."
-    ];
-    return responses[Math.floor(Math.random() * responses.length)];
+  const getTimeUntilReset = () => {
+    if (!quota.status || quota.status.day.limit === null) return "";
+    return formatTimeUntil(quota.status.day.resetsAt, quota.now);
   };
 
-  const handleSendMessage = async () => {
-    if (!currentMessage.trim() || !user || !canAskQuestion()) return;
+  const getComposerPlaceholder = () => {
+    if (canAskQuestion()) return "Message ChatBot AI... (type / for commands)";
+    if (!quota.status || !quota.blockingPeriod) return "Checking your question quota...";
+    const limit = describeLimit(quota.status, quota.blockingPeriod);
+    return `${limit.charAt(0).toUpperCase()}${limit.slice(1)} reached`;
+  };
+
+  const getLimitReachedMessage = () => {
+    if (!quota.status || !quota.blockingPeriod) return "";
+    const { resetsAt } = quota.status[quota.blockingPeriod];
+    return `You've reached your ${describeLimit(quota.status, quota.blockingPeriod)}. Try again in ${formatTimeUntil(resetsAt, quota.now)}!`;
+  };
+
+const generateChatId = (): string => {
+    return 'chat-' + Date.now() + '-' + Math.random().toString(36).substr(2, 9);
+  };
 
-    if (!canAskQuestion()) {
+  // Counts one question against the quota; false, after telling the user why, when it can't.
+  const consumeQuestion = async () => {
+    try {
+      await quota.consume();
+      return true;
+    } catch (error) {
       toast({
-        title: "Question limit reached",
-        description: "You've reached your daily question limit of 10.",
+        title: error instanceof QuotaExceededError ? "Question limit reached" : "Error",
+        description: getErrorMessage(error, "Failed to check your question quota"),
         variant: "destructive",
       });
-      return;
+      return false;
     }
+  };
 
-    setIsLoading(true);
+  // Usually browser storage running out, which large attachments make likely.
+  const showSaveError = (error: unknown) =>
+    toast({
+      title: "Couldn't save chat",
+      description: getErrorMessage(error, "Failed to save the conversation"),
+      variant: "destructive",
+    });
 
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      content: currentMessage,
-      isBot: false,
-      timestamp: new Date(),
-    };
+  // Saves to the chat that was open when the reply started, which `isOnScreen` says is still showing.
+  const persistChat = async (messages: Message[], currentLeafId: string, titleSource: string, isOnScreen: () => boolean) => {
+    const chatTitle = titleSource.slice(0, 30) + (titleSource.length > 30 ? "..." : "");
 
-    let updatedMessages = [...currentMessages, userMessage];
-    setCurrentMessages(updatedMessages);
-    setCurrentMessage("");
-
-    // Update question count
-    const updatedUser = { ...user, questionsToday: user.questionsToday + 1 };
-    setUser(updatedUser);
-    localStorage.setItem("user", JSON.stringify(updatedUser));
-
-    // Simulate bot response
-    setTimeout(() => {
-      const botMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        content: generateBotResponse(userMessage.content),
-        isBot: true,
-        timestamp: new Date(),
-      };
-
-      updatedMessages = [...updatedMessages, botMessage];
-      setCurrentMessages(updatedMessages);
-
-      // Save or update chat history
-      const chatTitle = userMessage.content.slice(0, 30) + (userMessage.content.length > 30 ? "..." : "");
-      
-      if (activeChat) {
+    const existingChat = activeChat ? chatHistory.find(chat => chat.id === activeChat) : undefined;
+    try {
+      if (existingChat) {
         // Update existing chat
-        const updatedHistory = chatHistory.map(chat =>
-          chat.id === activeChat
-            ? { ...chat, messages: updatedMessages, title: chatTitle }
-            : chat
-        );
-        setChatHistory(updatedHistory);
-        localStorage.setItem(`chatHistory_${user.username}`, JSON.stringify(updatedHistory));
+        await saveChat({
+          ...existingChat,
+          messages,
+          olderMessageCount,
+          currentLeafId,
+          settings: chatSettings,
+          title: existingChat.titleLocked ? existingChat.title : chatTitle,
+        });
       } else {
         // Create new chat
         const newChat: ChatHistory = {
           id: generateChatId(),
           title: chatTitle,
-          messages: updatedMessages,
+          messages,
+          currentLeafId,
+          settings: chatSettings,
           createdAt: new Date(),
+          updatedAt: new Date(),
+          ...(activeSpace ? { spaceId: activeSpace.id } : {}),
         };
-        const updatedHistory = [newChat, ...chatHistory];
-        setChatHistory(updatedHistory);
-        setActiveChat(newChat.id);
-        localStorage.setItem(`chatHistory_${user.username}`, JSON.stringify(updatedHistory));
+        if (isOnScreen()) setActiveChat(newChat.id);
+        await saveChat(newChat);
+      }
+    } catch (error) {
+      showSaveError(error);
+    }
+  };
+
+  // Streams a reply to `question`, which is already in `messages`, and saves the chat with the
+  // reply as the current branch. A question is only charged once the first chunk arrives, so a
+  // reply that fails or comes back empty is free; if the quota ran out meanwhile (e.g. in another
+  // tab), the reply is stopped and dropped.
+  const streamReply = async (messages: Message[], question: Message, countsAgainstQuota: boolean) => {
+    const botMessage: Message = {
+      id: (Date.now() + 1).toString(),
+      content: "",
+      isBot: true,
+      timestamp: new Date(),
+      parentId: question.id,
+    };
+    const view = chatView.current;
+    const isOnScreen = () => chatView.current === view;
+    setChatMessages([...messages, botMessage]);
+    setLeafId(botMessage.id);
+
+    const updateBotMessage = (changes: Partial<Message>) => {
+      Object.assign(botMessage, changes);
+      setChatMessages((current) =>
+        current.map((message) => (message.id === botMessage.id ? { ...botMessage } : message))
+      );
+    };
+
+    const controller = new AbortController();
+    streamController.current = controller;
+    let charged: Promise<boolean> | null = null;
+
+    try {
+      await getChatProvider().streamMessage(toProviderMessages(getBranch(messages, question.id)), {
+        signal: controller.signal,
+        settings: requestSettings,
+        onChunk: (chunk) => {
+          if (countsAgainstQuota && !charged) {
+            charged = consumeQuestion().then((accepted) => {
+              if (!accepted) controller.abort();
+              return accepted;
+            });
+          }
+          updateBotMessage({ content: botMessage.content + chunk });
+        },
+      });
+    } catch (error) {
+      if (!isAbortError(error)) {
+        toast({
+          title: "Error",
+          description: getErrorMessage(error, "Failed to get a response"),
+          variant: "destructive",
+        });
       }
+      updateBotMessage({ interrupted: true });
+    } finally {
+      streamController.current = null;
+    }
+    if (charged && !(await charged)) updateBotMessage({ content: "" });
+
+    const titleSource = question.content || question.attachments?.[0]?.name || "";
 
-      setIsLoading(false);
-    }, 1500);
+    // Nothing arrived before the stream ended, or the reply was dropped, so there is no reply to
+    // keep; fall back to an earlier answer if there is one.
+    if (!botMessage.content) {
+      const fallbackLeafId = getLatestLeaf(messages, question.id);
+      if (isOnScreen()) {
+        setChatMessages(messages);
+        setLeafId(fallbackLeafId);
+      }
+      await persistChat(messages, fallbackLeafId, titleSource, isOnScreen);
+    } else {
+      await persistChat([...messages, { ...botMessage }], botMessage.id, titleSource, isOnScreen);
+    }
+  };
+
+  // Asks `content` as a new message under `parentId`. Asking under a message that already has
+  // replies (editing a question) starts a new branch next to the old one.
+  const askQuestion = async (
+    content: string,
+    parentId: string | null,
+    onAccepted: () => void,
+    attachments: Attachment[] = [],
+  ) => {
+    if ((!content.trim() && attachments.length === 0) || !user || !canAskQuestion()) return;
+
+    setIsLoading(true);
+    onAccepted();
+
+    const userMessage: Message = {
+      id: Date.now().toString(),
+      content,
+      isBot: false,
+      timestamp: new Date(),
+      parentId,
+      ...(attachments.length > 0 ? { attachments } : {}),
+    };
+    await streamReply([...chatMessages, userMessage], userMessage, true);
+    setIsLoading(false);
+  };
+
+  const regenerationCountsAgainstQuota = () => !!user && getQuotaPolicy(user.role).regenerationsCountAgainstQuota;
+
+  const canRegenerate = () => !!user && (!regenerationCountsAgainstQuota() || canAskQuestion());
+
+  // Asks for another answer to the question `reply` answered; earlier answers stay as alternatives.
+  const regenerateReply = async (reply: Message) => {
+    const question = chatMessages.find((message) => message.id === getParentId(chatMessages, reply.id));
+    if (!question || !canRegenerate()) return;
+
+    setIsLoading(true);
+    await streamReply(chatMessages, question, regenerationCountsAgainstQuota());
+    setIsLoading(false);
+  };
+
+  const handleSendMessage = () =>
+    askQuestion(
+      currentMessage,
+      lastMessage?.id ?? null,
+      () => {
+        setCurrentMessage("");
+        setPendingAttachments([]);
+      },
+      pendingAttachments,
+    );
+
+  const addAttachments = async (files: File[]) => {
+    if (files.length === 0) return;
+    const room = MAX_ATTACHMENTS - pendingAttachments.length;
+    if (files.length > room) {
+      toast({
+        title: "Too many attachments",
+        description: `You can attach up to ${MAX_ATTACHMENTS} files to a message.`,
+        variant: "destructive",
+      });
+    }
+
+    const results = await Promise.allSettled(files.slice(0, Math.max(room, 0)).map(readAttachment));
+    const added: Attachment[] = [];
+    for (const result of results) {
+      if (result.status === "fulfilled") {
+        added.push(result.value);
+      } else {
+        toast({
+          title: "Can't attach file",
+          description: getErrorMessage(result.reason, "Failed to read the file"),
+          variant: "destructive",
+        });
+      }
+    }
+    setPendingAttachments((current) => [...current, ...added].slice(0, MAX_ATTACHMENTS));
+  };
+
+  const removeAttachment = (id: string) =>
+    setPendingAttachments((current) => current.filter((attachment) => attachment.id !== id));
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    addAttachments(files);
+  };
+
+  const hasDraggedFiles = (e: React.DragEvent) => e.dataTransfer.types.includes("Files");
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!hasDraggedFiles(e)) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragging(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!hasDraggedFiles(e)) return;
+    e.preventDefault();
+    setIsDragging(false);
+    addAttachments(Array.from(e.dataTransfer.files));
+  };
+
+  const startEditing = (message: Message) => {
+    setEditingMessage(message.id);
+    setEditDraft(message.content);
+  };
+
+  const submitEdit = (message: Message) =>
+    askQuestion(editDraft, getParentId(chatMessages, message.id), () => setEditingMessage(null), message.attachments);
+
+  // Shows the branch through `messageId`, following its newest replies.
+  const showBranch = (messageId: string) => {
+    const newLeafId = getLatestLeaf(chatMessages, messageId);
+    setLeafId(newLeafId);
+    const chat = chatHistory.find((c) => c.id === activeChat);
+    if (chat) saveChat({ ...chat, currentLeafId: newLeafId }).catch(showSaveError);
+  };
+
+  const stopStreaming = () => {
+    streamController.current?.abort();
   };
 
   const startNewChat = () => {
+    chatView.current++;
     setActiveChat(null);
-    setCurrentMessages([]);
+    setChatMessages([]);
+    setOlderMessageCount(0);
+    setLeafId(null);
+    setChatSettings({});
+    setEditingMessage(null);
+  };
+
+  const openChat = (chat: ChatHistory, messageId?: string) => {
+    chatView.current++;
+    setActiveSpaceId(getChatSpaceId(chat));
+    setActiveChat(chat.id);
+    setChatMessages(chat.messages);
+    setOlderMessageCount(chat.olderMessageCount ?? 0);
+    setChatSettings(chat.settings ?? {});
+    setEditingMessage(null);
+    // A message on another branch needs that branch on screen.
+    const onBranch = !messageId || getBranch(chat.messages, chat.currentLeafId).some((m) => m.id === messageId);
+    setLeafId(onBranch ? chat.currentLeafId ?? null : getLatestLeaf(chat.messages, messageId));
   };
 
   const loadChat = (chatId: string) => {
     const chat = chatHistory.find(c => c.id === chatId);
-    if (chat) {
-      setActiveChat(chatId);
-      setCurrentMessages(chat.messages);
+    if (chat) openChat(chat);
+  };
+
+  // Search covers every message, so results may be in messages the chat hasn't loaded yet.
+  const openSearchResult = (chatId: string, messageId: string) => {
+    const chat = (searchChats ?? chatHistory).find((c) => c.id === chatId);
+    if (!chat) return;
+    openChat(chat, messageId);
+    setHighlightedMessage(messageId);
+  };
+
+  const loadEarlierMessages = async () => {
+    const chat = chatHistory.find((c) => c.id === activeChat);
+    if (!chat) return;
+    setIsLoadingOlder(true);
+    try {
+      const loaded = await loadOlderMessages({ ...chat, messages: chatMessages, olderMessageCount });
+      const page = loaded.messages.slice(0, loaded.messages.length - chatMessages.length);
+      setChatMessages((current) => [...page, ...current]);
+      setOlderMessageCount(loaded.olderMessageCount ?? 0);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to load earlier messages"),
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  };
+
+  const updateChat = (chat: ChatHistory, changes: Partial<ChatHistory>) =>
+    saveChat({ ...chat, ...changes }).catch(showSaveError);
+
+  const deleteChat = async (listed: ChatHistory) => {
+    let chat: ChatHistory;
+    try {
+      // Undo needs every message back, including ones never loaded.
+      [chat] = await getFullChats([listed]);
+      if (activeChat === chat.id) startNewChat();
+      await removeChat(chat.id);
+    } catch (error) {
+      toast({ title: "Error", description: getErrorMessage(error, "Failed to delete the chat"), variant: "destructive" });
+      return;
+    }
+    toast({
+      title: "Chat deleted",
+      description: chat.title,
+      action: (
+        <ToastAction altText="Undo delete" onClick={() => saveChat(chat).catch(showSaveError)}>
+          Undo
+        </ToastAction>
+      ),
+    });
+  };
+
+  const exportChats = async (listed: ChatHistory[], format: TranscriptFormat | "print") => {
+    if (listed.length === 0) return;
+    try {
+      const chats = await getFullChats(listed);
+      if (format === "print") setPrintChats(chats);
+      else downloadTranscript(chats, format);
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: getErrorMessage(error, "Could not read the chats"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const shareChat = async (chat: ChatHistory) => {
+    try {
+      const [full] = await getFullChats([chat]);
+      setSharingChat(full);
+    } catch (error) {
+      toast({ title: "Error", description: getErrorMessage(error, "Could not read the chat"), variant: "destructive" });
+    }
+  };
+
+  const importChats = async (file: File) => {
+    try {
+      const imported = parseTranscriptJson(await file.text());
+      const { added, skipped } = mergeImportedChats(await getFullChats(chatHistory), imported, generateChatId, {
+        spaces,
+        folders: ownFolders,
+        tags,
+      });
+      await Promise.all(added.map(saveChat));
+      toast({
+        title: `Imported ${added.length} ${added.length === 1 ? "chat" : "chats"}`,
+        description: skipped > 0 ? `${skipped} already in your history were skipped.` : undefined,
+      });
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: getErrorMessage(error, "Could not read the file"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const showOrganizerError = (error: unknown) =>
+    toast({ title: "Error", description: getErrorMessage(error, "Failed to save your folders and tags"), variant: "destructive" });
+
+  const organize = (change: (current: ChatOrganizer) => ChatOrganizer) => updateOrganizer(change).catch(showOrganizerError);
+
+  // Chats are dragged by id; only ones in the sidebar can be dropped.
+  const moveDroppedChat = (chatId: string, folderId: string | undefined) => {
+    const chat = chatHistory.find((item) => item.id === chatId);
+    if (chat && chat.folderId !== folderId) updateChat(chat, { folderId });
+  };
+
+  const acceptChatDrag = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes(CHAT_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+  };
+
+  const createFolder = () => {
+    let folderId: string | null = null;
+    organize((current) => {
+      const { organizer, folder } = addFolder(current, "New folder");
+      folderId = folder.id;
+      return organizer;
+    });
+    setNewFolderId(folderId);
+    setFolderFilter(ALL_FOLDERS);
+  };
+
+  const deleteFolder = (folderId: string) => {
+    organize((current) => removeFolder(current, folderId));
+    if (folderFilter === folderId) setFolderFilter(ALL_FOLDERS);
+  };
+
+  const toggleChatTag = (chat: ChatHistory, tagId: string) => {
+    const tagIds = chat.tagIds ?? [];
+    updateChat(chat, { tagIds: tagIds.includes(tagId) ? tagIds.filter((id) => id !== tagId) : [...tagIds, tagId] });
+  };
+
+  // The chat only gets the tag once the tag itself is saved, so it never points at a missing one.
+  const createTag = async (chat: ChatHistory, name: string, color: TagColor) => {
+    let tagId = "";
+    try {
+      await updateOrganizer((current) => {
+        const { organizer, tag } = addTag(current, name, color);
+        tagId = tag.id;
+        return organizer;
+      });
+    } catch (error) {
+      showOrganizerError(error);
+      return;
+    }
+    updateChat(chat, { tagIds: [...(chat.tagIds ?? []), tagId] });
+  };
+
+  const deleteTag = (tagId: string) => {
+    organize((current) => removeTag(current, tagId));
+    setTagFilter((current) => current.filter((id) => id !== tagId));
+  };
+
+  const renderChatItem = (chat: ChatHistory) => (
+    <ChatListItem
+      key={chat.id}
+      chat={chat}
+      active={activeChat === chat.id}
+      onSelect={() => loadChat(chat.id)}
+      onRename={(title) => updateChat(chat, { title, titleLocked: true })}
+      onTogglePin={() => updateChat(chat, { pinned: !chat.pinned })}
+      onToggleArchive={() => updateChat(chat, { archived: !chat.archived })}
+      onExport={(format) => exportChats([chat], format)}
+      onShare={() => shareChat(chat)}
+      onDelete={() => deleteChat(chat)}
+      folders={scopeFolders}
+      onMove={(folderId) => updateChat(chat, { folderId })}
+      tags={tags.filter((tag) => chat.tagIds?.includes(tag.id))}
+      onEditTags={() => setTaggingChatId(chat.id)}
+    />
+  );
+
+  const switchSpace = (spaceId: string | null) => {
+    setActiveSpaceId(spaceId);
+    setFolderFilter(ALL_FOLDERS);
+    startNewChat();
+  };
+
+  const showSpaceError = (error: unknown, fallback: string) =>
+    toast({ title: "Error", description: getErrorMessage(error, fallback), variant: "destructive" });
+
+  const saveSpace = async (draft: SpaceDraft) => {
+    try {
+      if (spaceDialog === "edit" && activeSpace) {
+        await updateSpace({ id: activeSpace.id, draft });
+        toast({ title: "Space saved" });
+      } else {
+        const space = await createSpace(draft);
+        switchSpace(space.id);
+        toast({ title: `Created ${space.name}`, description: `Students can join with the code ${space.joinCode}.` });
+      }
+      return true;
+    } catch (error) {
+      showSpaceError(error, "Failed to save the space");
+      return false;
+    }
+  };
+
+  const handleJoinSpace = async (joinCode: string) => {
+    try {
+      const space = await joinSpace(joinCode);
+      switchSpace(space.id);
+      toast({ title: `Joined ${space.name}` });
+      return true;
+    } catch (error) {
+      showSpaceError(error, "Failed to join the space");
+      return false;
+    }
+  };
+
+  const handleLeaveSpace = async () => {
+    if (!activeSpace) return;
+    try {
+      await leaveSpace(activeSpace.id);
+      switchSpace(null);
+      toast({ title: `Left ${activeSpace.name}`, description: "Your chats from it are now with your personal chats." });
+    } catch (error) {
+      showSpaceError(error, "Failed to leave the space");
     }
   };
 
   const handleLogout = () => {
-    localStorage.removeItem("user");
-    navigate("/");
+    logout();
+    navigate("/login");
+  };
+
+  const updateChatSettings = (changes: Partial<ChatSettings>) => {
+    const settings = { ...chatSettings, ...changes };
+    setChatSettings(settings);
+    const chat = chatHistory.find((c) => c.id === activeChat);
+    if (chat) saveChat({ ...chat, settings }).catch(showSaveError);
   };
 
-  const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === "Enter" && !e.shiftKey) {
-      e.preventDefault();
-      handleSendMessage();
+  const clearChat = async () => {
+    const listed = chatHistory.find((c) => c.id === activeChat);
+    setChatMessages([]);
+    setOlderMessageCount(0);
+    setLeafId(null);
+    if (!listed) return;
+    let chat: ChatHistory;
+    try {
+      // Undo needs every message back, including ones never loaded.
+      [chat] = await getFullChats([listed]);
+      await saveChat({ ...chat, messages: [], olderMessageCount: 0, currentLeafId: undefined });
+    } catch (error) {
+      showSaveError(error);
+      openChat(listed);
+      return;
+    }
+    toast({
+      title: "Chat cleared",
+      action: (
+        <ToastAction
+          altText="Undo clear"
+          onClick={() => {
+            saveChat(chat).catch(showSaveError);
+            openChat(chat);
+          }}
+        >
+          Undo
+        </ToastAction>
+      ),
+    });
+  };
+
+  const insertText = (text: string) => {
+    setCurrentMessage((current) => (current.trim() ? `${current.trimEnd()}\n\n${text}` : text));
+  };
+
+  // Templates without variables go straight into the composer.
+  const pickTemplate = (template: PromptTemplate) => {
+    if (getTemplateVariables(template.body).length > 0) setFillingTemplate(template);
+    else insertText(template.body);
+  };
+
+  const handleCommand = (name: SlashCommandName, argument: string) => {
+    const chat = chatHistory.find((c) => c.id === activeChat);
+    switch (name) {
+      case "new":
+        startNewChat();
+        break;
+      case "clear":
+        clearChat();
+        break;
+      case "export":
+        if (chat) exportChats([chat], "markdown");
+        else toast({ title: "Nothing to export yet", description: "Send a message first." });
+        break;
+      case "model": {
+        const models = getChatModels().map((model) => model.id).join(", ");
+        if (!argument) {
+          toast({ title: `Model: ${chatSettings.model ?? "server default"}`, description: `Available: ${models}` });
+          break;
+        }
+        const model = findChatModel(argument);
+        if (!model) {
+          toast({ title: "Unknown model", description: `Available: ${models}`, variant: "destructive" });
+          break;
+        }
+        updateChatSettings({ model: model.id });
+        toast({ title: `Model set to ${model.label}` });
+        break;
+      }
+      case "system":
+        updateChatSettings({ systemPrompt: argument || undefined });
+        toast({ title: argument ? "System prompt set" : "System prompt cleared" });
+        break;
+      case "template":
+        setTemplatePickerOpen(true);
+        break;
     }
   };
 
   if (!user) return null;
 
   return (
-    <div className="flex h-screen bg-background text-foreground">
-      {/* Sidebar */}
-      <div className={`${sidebarOpen ? "w-80" : "w-0"} transition-all duration-300 overflow-hidden border-r border-border bg-card`}>
-        <div className="flex flex-col h-full">
-          {/* Sidebar Header */}
-          <div className="p-4 border-b border-border">
-            <div className="flex items-center justify-between mb-4">
-              <div className="flex items-center space-x-3">
-                <div className="w-8 h-8 rounded-lg bg-primary/20 flex items-center justify-center">
-                  <MessageSquare className="h-5 w-5 text-primary" />
+    <>
+      <div className="flex h-screen bg-background text-foreground print:hidden">
+        <ChatSettingsSheet
+          open={settingsOpen}
+          onOpenChange={setSettingsOpen}
+          settings={chatSettings}
+          onSave={updateChatSettings}
+          defaultSystemPrompt={activeSpace?.defaultSystemPrompt}
+        />
+        <SpaceSettingsDialog
+          open={spaceDialog !== null}
+          onOpenChange={(open) => !open && setSpaceDialog(null)}
+          space={spaceDialog === "edit" ? activeSpace ?? undefined : undefined}
+          onSave={saveSpace}
+        />
+        <JoinSpaceDialog open={joinSpaceOpen} onOpenChange={setJoinSpaceOpen} onJoin={handleJoinSpace} />
+        <SearchPalette
+          open={searchOpen}
+          onOpenChange={setSearchOpen}
+          chats={searchChats ?? chatHistory}
+          onSelect={openSearchResult}
+        />
+        {/* Sidebar */}
+        <div className={`${sidebarOpen ? "w-80" : "w-0"} transition-all duration-300 overflow-hidden border-r border-border bg-card`}>
+          <div className="flex flex-col h-full">
+            {/* Sidebar Header */}
+            <div className="p-4 border-b border-border">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center space-x-3">
+                  <div className="w-8 h-8 rounded-lg bg-primary/20 flex items-center justify-center">
+                    <MessageSquare className="h-5 w-5 text-primary" />
+                  </div>
+                  <span className="font-semibold text-lg text-foreground">ChatBot AI</span>
                 </div>
-                <span className="font-semibold text-lg text-foreground">ChatBot AI</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setSidebarOpen(false)}
+                  className="lg:hidden hover:bg-muted"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
               </div>
+
+              <SpaceSwitcher
+                spaces={spaces}
+                activeSpace={activeSpace}
+                role={spaceRole}
+                canCreate={canCreateSpaces(user)}
+                onChange={switchSpace}
+                onJoin={() => setJoinSpaceOpen(true)}
+                onCreate={() => setSpaceDialog("new")}
+                onEdit={() => setSpaceDialog("edit")}
+                onLeave={handleLeaveSpace}
+              />
               <Button
-                variant="ghost"
+                onClick={startNewChat}
+                className="w-full bg-primary hover:bg-primary/90 text-primary-foreground transition-all duration-200 font-medium"
                 size="sm"
-                onClick={() => setSidebarOpen(false)}
-                className="lg:hidden hover:bg-muted"
               >
-                <X className="h-4 w-4" />
+                <Plus className="h-4 w-4 mr-2" />
+                New Chat
               </Button>
-            </div>
-            
-            <Button
-              onClick={startNewChat}
-              className="w-full bg-primary hover:bg-primary/90 text-primary-foreground transition-all duration-200 font-medium"
-              size="sm"
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              New Chat
-            </Button>
-          </div>
-
-          {/* Chat History */}
-          <ScrollArea className="flex-1 p-2">
-            <div className="space-y-1">
-              {chatHistory.map((chat) => (
+              <div className="flex mt-2 space-x-2">
                 <Button
-                  key={chat.id}
-                  variant={activeChat === chat.id ? "secondary" : "ghost"}
-                  className={`w-full justify-start text-left p-3 h-auto rounded-lg transition-all duration-200 ${
-                    activeChat === chat.id 
-                      ? "bg-secondary text-secondary-foreground border border-border/50" 
-                      : "hover:bg-muted/50 text-muted-foreground hover:text-foreground"
-                  }`}
-                  onClick={() => loadChat(chat.id)}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setSearchOpen(true)}
+                  className="flex-1 justify-start text-muted-foreground bg-background hover:bg-muted border-border"
                 >
-                  <div className="truncate w-full">
-                    <div className="font-medium truncate text-sm mb-1">{chat.title}</div>
-                    <div className="text-xs opacity-70">
-                      {chat.createdAt.toLocaleDateString()}
-                    </div>
-                  </div>
+                  <Search className="h-4 w-4 mr-2" />
+                  Search chats
+                  <kbd className="ml-auto text-xs opacity-60">Ctrl K</kbd>
                 </Button>
-              ))}
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="bg-background hover:bg-muted border-border text-muted-foreground"
+                      aria-label="Export or import chats"
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem disabled={chatHistory.length === 0} onSelect={() => exportChats(chatHistory, "markdown")}>
+                      <FileText className="h-4 w-4 mr-2" />
+                      Export all as Markdown
+                    </DropdownMenuItem>
+                    <DropdownMenuItem disabled={chatHistory.length === 0} onSelect={() => exportChats(chatHistory, "json")}>
+                      <FileJson className="h-4 w-4 mr-2" />
+                      Export all as JSON
+                    </DropdownMenuItem>
+                    <DropdownMenuItem disabled={chatHistory.length === 0} onSelect={() => exportChats(chatHistory, "print")}>
+                      <Printer className="h-4 w-4 mr-2" />
+                      Print all / PDF
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onSelect={() => importInput.current?.click()}>
+                      <Upload className="h-4 w-4 mr-2" />
+                      Import from JSON...
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+                <input
+                  ref={importInput}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = "";
+                    if (file) importChats(file);
+                  }}
+                />
+              </div>
+              {(scopeFolders.length > 0 || tags.length > 0 || !activeSpace) && (
+                <ChatFilters
+                  folders={scopeFolders}
+                  tags={tags}
+                  folderFilter={folderFilter}
+                  onFolderFilterChange={setFolderFilter}
+                  tagFilter={tagFilter}
+                  onTagFilterChange={setTagFilter}
+                  onCreateFolder={activeSpace ? undefined : createFolder}
+                />
+              )}
             </div>
-          </ScrollArea>
 
-          {/* User Info */}
-          <div className="p-4 border-t border-border bg-muted/30">
-            <div className="flex items-center justify-between mb-3">
-              <div className="flex items-center space-x-3">
-                <div className="w-8 h-8 rounded-full bg-primary/20 flex items-center justify-center">
-                  <User className="h-4 w-4 text-primary" />
-                </div>
-                <div>
-                  <div className="text-sm font-medium text-foreground">{user.username}</div>
-                  <div className="text-xs text-muted-foreground">Questions: {getQuestionLimit()}</div>
+            {/* Chat History */}
+            <ScrollArea className="flex-1 p-2">
+              {/* Dropping a chat here takes it out of its folder */}
+              <div
+                className="space-y-1 min-h-8"
+                onDragOver={acceptChatDrag}
+                onDrop={(e) => {
+                  const chatId = e.dataTransfer.getData(CHAT_DRAG_TYPE);
+                  if (chatId) moveDroppedChat(chatId, undefined);
+                }}
+              >
+                {pinnedChats.map(renderChatItem)}
+                {pinnedChats.length > 0 && recentChats.length > 0 && <Separator className="my-2" />}
+                {recentChats.map(renderChatItem)}
+                {isFiltering && visibleChats.length === 0 && (
+                  <p className="px-3 py-2 text-xs text-muted-foreground">No chats match these filters.</p>
+                )}
+              </div>
+              {scopeFolders.map((folder) => {
+                const folderChats = visibleChats.filter((chat) => chat.folderId === folder.id && !chat.pinned && !chat.archived);
+                if (isFiltering && folderChats.length === 0) return null;
+                return (
+                  <FolderSection
+                    key={folder.id}
+                    folder={folder}
+                    count={folderChats.length}
+                    editable={!activeSpace}
+                    renameOnMount={folder.id === newFolderId}
+                    onDropChat={(chatId) => moveDroppedChat(chatId, folder.id)}
+                    onDropFolder={(folderId) => organize((current) => moveFolder(current, folderId, folder.id))}
+                    onRename={(name) => organize((current) => renameFolder(current, folder.id, name))}
+                    onDelete={() => deleteFolder(folder.id)}
+                  >
+                    {folderChats.map(renderChatItem)}
+                  </FolderSection>
+                );
+              })}
+              {archivedChats.length > 0 && (
+                <Collapsible className="mt-4">
+                  <CollapsibleTrigger className="group flex w-full items-center px-3 py-2 text-xs font-medium text-muted-foreground hover:text-foreground">
+                    <ChevronRight className="h-3 w-3 mr-1 transition-transform group-data-[state=open]:rotate-90" />
+                    Archived ({archivedChats.length})
+                  </CollapsibleTrigger>
+                  <CollapsibleContent className="space-y-1">
+                    {archivedChats.map(renderChatItem)}
+                  </CollapsibleContent>
+                </Collapsible>
+              )}
+            </ScrollArea>
+
+            {/* User Info */}
+            <div className="p-4 border-t border-border bg-muted/30">
+              <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center space-x-3">
+                  <div className="w-8 h-8 rounded-full bg-primary/20 flex items-center justify-center">
+                    <User className="h-4 w-4 text-primary" />
+                  </div>
+                  <div>
+                    <div className="text-sm font-medium text-foreground">{user.username}</div>
+                    <div className="text-xs text-muted-foreground">Questions: {getQuestionLimit()}</div>
+                    {getPoolLimit() && <div className="text-xs text-muted-foreground">{activeSpace?.name}: {getPoolLimit()}</div>}
+                  </div>
                 </div>
+                <span className="text-xs bg-primary/10 text-primary px-2 py-1 rounded-md border border-primary/20 font-medium">
+                  {user.role}
+                </span>
               </div>
-              <span className="text-xs bg-primary/10 text-primary px-2 py-1 rounded-md border border-primary/20 font-medium">
-                {user.role}
-              </span>
+              <StorageMeter />
+              {/* Sync is retried in the background; chats are kept in the browser meanwhile. */}
+              {syncError && (
+                <div
+                  className="flex items-center mb-3 text-xs text-destructive"
+                  role="status"
+                  title={getErrorMessage(syncError, "Failed to sync chat history")}
+                >
+                  <CloudOff className="h-3 w-3 mr-2 flex-shrink-0" />
+                  <span className="truncate">Not synced. Chats are saved on this device.</span>
+                </div>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                asChild
+                className="w-full mb-2 bg-background hover:bg-muted border-border text-foreground"
+              >
+                <Link to="/templates">
+                  <BookText className="h-4 w-4 mr-2" />
+                  Prompt templates
+                </Link>
+              </Button>
+              {hasPermission(user.role, "admin:access") && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  asChild
+                  className="w-full mb-2 bg-background hover:bg-muted border-border text-foreground"
+                >
+                  <Link to="/admin">
+                    <Shield className="h-4 w-4 mr-2" />
+                    Admin dashboard
+                  </Link>
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleLogout}
+                className="w-full bg-background hover:bg-muted border-border text-foreground"
+              >
+                <LogOut className="h-4 w-4 mr-2" />
+                Logout
+              </Button>
             </div>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={handleLogout}
-              className="w-full bg-background hover:bg-muted border-border text-foreground"
-            >
-              <LogOut className="h-4 w-4 mr-2" />
-              Logout
-            </Button>
           </div>
         </div>
-      </div>
 
-      {/* Main Chat Area */}
-      <div className="flex-1 flex flex-col">
-        {/* Header */}
-        <div className="p-4 border-b bg-card flex items-center justify-between">
-          <div className="flex items-center space-x-2">
-            {!sidebarOpen && (
+        {/* Main Chat Area */}
+        <div
+          className="relative flex-1 flex flex-col"
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDrop={handleDrop}
+        >
+          {isDragging && (
+            <div className="pointer-events-none absolute inset-0 z-10 m-4 flex items-center justify-center rounded-xl border-2 border-dashed border-primary bg-background/80 text-primary font-medium">
+              <Paperclip className="h-5 w-5 mr-2" />
+              Drop images, PDFs or text files to attach
+            </div>
+          )}
+          {/* Header */}
+          <div className="p-4 border-b bg-card flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              {!sidebarOpen && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setSidebarOpen(true)}
+                >
+                  <Menu className="h-4 w-4" />
+                </Button>
+              )}
+              <h1 className="text-lg font-semibold text-foreground">
+                {activeChat ? chatHistory.find(c => c.id === activeChat)?.title || "Chat" : "New Chat"}
+              </h1>
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={() => setSidebarOpen(true)}
+                onClick={() => setSettingsOpen(true)}
+                className="text-muted-foreground"
+                aria-label="Chat settings"
               >
-                <Menu className="h-4 w-4" />
+                <SlidersHorizontal className="h-4 w-4" />
+                {chatSettings.model && <span className="ml-2 text-xs">{findChatModel(chatSettings.model)?.label ?? chatSettings.model}</span>}
               </Button>
-            )}
-            <h1 className="text-lg font-semibold text-foreground">
-              {activeChat ? chatHistory.find(c => c.id === activeChat)?.title || "Chat" : "New Chat"}
-            </h1>
-          </div>
-          <div className="text-sm text-muted-foreground">
-            {getQuestionLimit()}
+            </div>
+            <div className="text-sm text-muted-foreground">
+              {getQuestionLimit()}
+              {getTimeUntilReset() && (
+                <span className="ml-2 opacity-70">· resets in {getTimeUntilReset()}</span>
+              )}
+            </div>
           </div>
-        </div>
 
-        {/* Messages */}
-        <ScrollArea className="flex-1 p-4">
-          <div className="space-y-4 max-w-4xl mx-auto">
-            {currentMessages.length === 0 ? (
-              <div className="text-center py-16">
-                <div className="w-16 h-16 rounded-full bg-primary/10 flex items-center justify-center mx-auto mb-6">
-                  <MessageSquare className="h-8 w-8 text-primary" />
+          {/* Messages */}
+          <ScrollArea className="flex-1 p-4">
+            <div className="space-y-4 max-w-4xl mx-auto">
+              {olderMessageCount > 0 && (
+                <div className="flex justify-center">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={loadEarlierMessages}
+                    disabled={isLoadingOlder || isLoading}
+                    className="text-muted-foreground"
+                  >
+                    Load earlier messages ({olderMessageCount} more)
+                  </Button>
                 </div>
-                <h3 className="text-xl font-semibold mb-3 text-foreground">Start a conversation</h3>
-                <p className="text-muted-foreground text-base max-w-md mx-auto">Ask me anything to get started! I'm here to help you with questions and provide assistance.</p>
-              </div>
-            ) : (
-              currentMessages.map((message) => (
-                <div
-                  key={message.id}
-                  className={`flex ${message.isBot ? "justify-start" : "justify-end"} mb-6`}
-                >
-                  <div className={`flex items-start space-x-3 max-w-[85%] ${message.isBot ? "" : "flex-row-reverse space-x-reverse"}`}>
-                    <div className={`flex-shrink-0 w-10 h-10 rounded-full flex items-center justify-center shadow-sm ${
-                      message.isBot 
-                        ? "bg-muted border border-border" 
-                        : "bg-primary"
-                    }`}>
-                      {message.isBot ? (
-                        <Bot className="h-5 w-5 text-muted-foreground" />
-                      ) : (
-                        <User className="h-5 w-5 text-primary-foreground" />
-                      )}
+              )}
+              {currentMessages.length === 0 ? (
+                <div className="text-center py-16">
+                  <div className="w-16 h-16 rounded-full bg-primary/10 flex items-center justify-center mx-auto mb-6">
+                    <MessageSquare className="h-8 w-8 text-primary" />
+                  </div>
+                  <h3 className="text-xl font-semibold mb-3 text-foreground">Start a conversation</h3>
+                  <p className="text-muted-foreground text-base max-w-md mx-auto">Ask me anything to get started! I'm here to help you with questions and provide assistance.</p>
+                </div>
+              ) : (
+                currentMessages.filter((message) => message.content || message.attachments?.length).map((message) => {
+                  const siblings = siblingMap.get(message.id) ?? [message];
+                  const isEditing = editingMessage === message.id;
+                  const isLastReply = message.isBot && message === lastMessage;
+                  return (
+                    <div
+                      key={message.id}
+                      id={`message-${message.id}`}
+                      className={`group flex ${message.isBot ? "justify-start" : "justify-end"} mb-6`}
+                    >
+                      <div className={`flex items-start space-x-3 max-w-[85%] ${message.isBot ? "" : "flex-row-reverse space-x-reverse"} ${isEditing ? "w-full" : ""}`}>
+                        <div className={`flex-shrink-0 w-10 h-10 rounded-full flex items-center justify-center shadow-sm ${
+                          message.isBot 
+                            ? "bg-muted border border-border" 
+                            : "bg-primary"
+                        }`}>
+                          {message.isBot ? (
+                            <Bot className="h-5 w-5 text-muted-foreground" />
+                          ) : (
+                            <User className="h-5 w-5 text-primary-foreground" />
+                          )}
+                        </div>
+                        <div className={`min-w-0 flex flex-col ${message.isBot ? "items-start" : "items-end"} ${isEditing ? "flex-1" : ""}`}>
+                          {isEditing ? (
+                            <div className="w-full rounded-xl border border-border bg-card p-3 shadow-sm">
+                              <Textarea
+                                value={editDraft}
+                                onChange={(e) => setEditDraft(e.target.value)}
+                                onKeyDown={(e) => {
+                                  if (e.key === "Escape") setEditingMessage(null);
+                                }}
+                                autoFocus
+                                className="min-h-[80px] bg-background"
+                                aria-label="Edit message"
+                              />
+                              <div className="flex justify-end space-x-2 mt-2">
+                                <Button variant="ghost" size="sm" onClick={() => setEditingMessage(null)}>
+                                  Cancel
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  onClick={() => submitEdit(message)}
+                                  disabled={!editDraft.trim() || editDraft === message.content || !canAskQuestion() || isLoading}
+                                >
+                                  Save & submit
+                                </Button>
+                              </div>
+                            </div>
+                          ) : (
+                            <div className={`min-w-0 rounded-xl px-4 py-3 shadow-sm transition-shadow duration-500 ${
+                              message.isBot 
+                                ? "bg-muted border border-border text-foreground" 
+                                : "bg-primary text-primary-foreground"
+                            } ${highlightedMessage === message.id ? "ring-2 ring-primary ring-offset-2 ring-offset-background" : ""}`}>
+                              {message.attachments?.length > 0 && (
+                                <div className={message.content ? "mb-2" : ""}>
+                                  <AttachmentList attachments={message.attachments} />
+                                </div>
+                              )}
+                              {message.isBot ? (
+                                <MarkdownMessage content={message.content} />
+                              ) : (
+                                message.content && <p className="text-sm leading-relaxed whitespace-pre-wrap">{message.content}</p>
+                              )}
+                              {message.interrupted && (
+                                <p className="text-xs text-muted-foreground italic mt-2">Response interrupted</p>
+                              )}
+                            </div>
+                          )}
+                          {!isEditing && (siblings.length > 1 || !message.isBot || (isLastReply && !isLoading)) && (
+                            <div className="flex items-center mt-1 space-x-1">
+                              {siblings.length > 1 && (
+                                <BranchSwitcher
+                                  index={siblings.indexOf(message)}
+                                  count={siblings.length}
+                                  onSelect={(index) => showBranch(siblings[index].id)}
+                                  disabled={isLoading}
+                                />
+                              )}
+                              {!message.isBot && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-6 w-6 p-0 text-muted-foreground opacity-0 group-hover:opacity-100 focus:opacity-100"
+                                  onClick={() => startEditing(message)}
+                                  disabled={isLoading}
+                                  aria-label="Edit message"
+                                >
+                                  <Pencil className="h-3 w-3" />
+                                </Button>
+                              )}
+                              {isLastReply && !isLoading && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-6 px-2 text-xs text-muted-foreground"
+                                  onClick={() => regenerateReply(message)}
+                                  disabled={!canRegenerate()}
+                                  title={regenerationCountsAgainstQuota() ? "Counts as a question" : "Doesn't count against your quota"}
+                                >
+                                  <RefreshCw className="h-3 w-3 mr-1" />
+                                  Regenerate
+                                </Button>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      </div>
                     </div>
-                    <div className={`rounded-xl px-4 py-3 shadow-sm ${
-                      message.isBot 
-                        ? "bg-muted border border-border text-foreground" 
-                        : "bg-primary text-primary-foreground"
-                    }`}>
-                      <p className="text-sm leading-relaxed">{message.content}</p>
+                  );
+                })
+              )}
+              {isLoading && !lastMessage?.content && !lastMessage?.attachments?.length && (
+                <div className="flex justify-start">
+                  <div className="flex items-start space-x-2 max-w-[80%]">
+                    <div className="flex-shrink-0 w-8 h-8 rounded-full bg-muted flex items-center justify-center">
+                      <Bot className="h-4 w-4 text-muted-foreground" />
                     </div>
+                     <div className="rounded-lg p-4 bg-chat-bot-message border border-border">
+                       <div className="flex space-x-1">
+                         <div className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce"></div>
+                         <div className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce" style={{ animationDelay: "0.1s" }}></div>
+                         <div className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce" style={{ animationDelay: "0.2s" }}></div>
+                       </div>
+                     </div>
                   </div>
                 </div>
-              ))
-            )}
-            {isLoading && (
-              <div className="flex justify-start">
-                <div className="flex items-start space-x-2 max-w-[80%]">
-                  <div className="flex-shrink-0 w-8 h-8 rounded-full bg-muted flex items-center justify-center">
-                    <Bot className="h-4 w-4 text-muted-foreground" />
-                  </div>
-                   <div className="rounded-lg p-4 bg-chat-bot-message border border-border">
-                     <div className="flex space-x-1">
-                       <div className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce"></div>
-                       <div className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce" style={{ animationDelay: "0.1s" }}></div>
-                       <div className="w-2 h-2 bg-muted-foreground rounded-full animate-bounce" style={{ animationDelay: "0.2s" }}></div>
-                     </div>
-                   </div>
+              )}
+            </div>
+          </ScrollArea>
+
+          {/* Input Area */}
+          <div className="p-4 border-t border-border bg-card/50 backdrop-blur-sm">
+            <div className="max-w-4xl mx-auto">
+              {pendingAttachments.length > 0 && (
+                <div className="mb-3">
+                  <AttachmentList attachments={pendingAttachments} onRemove={removeAttachment} />
                 </div>
+              )}
+              <div className="flex items-end space-x-3">
+                <Button
+                  variant="outline"
+                  onClick={() => attachInput.current?.click()}
+                  disabled={!canAskQuestion() || isLoading || pendingAttachments.length >= MAX_ATTACHMENTS}
+                  className="rounded-xl px-3"
+                  aria-label="Attach files"
+                >
+                  <Paperclip className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setTemplatePickerOpen(true)}
+                  disabled={isLoading}
+                  className="rounded-xl px-3"
+                  aria-label="Insert a template"
+                >
+                  <BookText className="h-4 w-4" />
+                </Button>
+                <input
+                  ref={attachInput}
+                  type="file"
+                  multiple
+                  accept={ATTACHMENT_ACCEPT}
+                  className="hidden"
+                  onChange={(e) => {
+                    const files = Array.from(e.target.files ?? []);
+                    e.target.value = "";
+                    addAttachments(files);
+                  }}
+                />
+                <Composer
+                  value={currentMessage}
+                  onChange={setCurrentMessage}
+                  onSubmit={handleSendMessage}
+                  onCommand={handleCommand}
+                  history={sentMessages}
+                  onPaste={handlePaste}
+                  placeholder={getComposerPlaceholder()}
+                  disabled={isLoading}
+                />
+                {isLoading ? (
+                  <Button
+                    onClick={stopStreaming}
+                    variant="outline"
+                    className="rounded-xl px-6"
+                    aria-label="Stop generating"
+                  >
+                    <Square className="h-4 w-4 fill-current" />
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={handleSendMessage}
+                    disabled={(!currentMessage.trim() && pendingAttachments.length === 0) || !canAskQuestion()}
+                    className="bg-primary hover:bg-primary/90 text-primary-foreground transition-all duration-200 rounded-xl px-6"
+                  >
+                    <Send className="h-4 w-4" />
+                  </Button>
+                )}
               </div>
-            )}
-          </div>
-        </ScrollArea>
-
-        {/* Input Area */}
-        <div className="p-4 border-t border-border bg-card/50 backdrop-blur-sm">
-          <div className="max-w-4xl mx-auto">
-            <div className="flex space-x-3">
-              <Input
-                value={currentMessage}
-                onChange={(e) => setCurrentMessage(e.target.value)}
-                onKeyPress={handleKeyPress}
-                placeholder={canAskQuestion() ? "Message ChatBot AI..." : "Daily question limit reached"}
-                disabled={!canAskQuestion() || isLoading}
-                className="flex-1 bg-background border-border text-foreground placeholder:text-muted-foreground rounded-xl px-4 py-3 focus:ring-2 focus:ring-primary/20 transition-all duration-200"
-              />
-              <Button
-                onClick={handleSendMessage}
-                disabled={!currentMessage.trim() || !canAskQuestion() || isLoading}
-                className="bg-primary hover:bg-primary/90 text-primary-foreground transition-all duration-200 rounded-xl px-6"
-              >
-                <Send className="h-4 w-4" />
-              </Button>
+              {quota.blockingPeriod && (
+                <p className="text-xs text-muted-foreground mt-3 text-center bg-muted/50 rounded-lg py-2 px-4">
+                  {getLimitReachedMessage()}
+                </p>
+              )}
             </div>
-            {!canAskQuestion() && user.role !== "admin" && (
-              <p className="text-xs text-muted-foreground mt-3 text-center bg-muted/50 rounded-lg py-2 px-4">
-                You've reached your daily limit of 10 questions. Try again tomorrow!
-              </p>
-            )}
           </div>
         </div>
       </div>
-    </div>
+      <TemplatePicker
+        open={templatePickerOpen}
+        onOpenChange={setTemplatePickerOpen}
+        templates={templates}
+        onPick={pickTemplate}
+      />
+      <TemplateFillDialog template={fillingTemplate} onClose={() => setFillingTemplate(null)} onInsert={insertText} />
+      <ShareDialog chat={sharingChat} onClose={() => setSharingChat(null)} />
+      <ChatTagsDialog
+        chat={taggingChat}
+        tags={tags}
+        onOpenChange={(open) => !open && setTaggingChatId(null)}
+        onToggle={(tagId) => taggingChat && toggleChatTag(taggingChat, tagId)}
+        onCreate={(name, color) => taggingChat && createTag(taggingChat, name, color)}
+        onDelete={deleteTag}
+      />
+      <PrintTranscript chats={printChats} />
+    </>
   );
 };
 
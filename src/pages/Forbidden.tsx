@@ -0,0 +1,27 @@
+import { Link, useLocation } from "react-router-dom";
+import { useEffect } from "react";
+
+const Forbidden = () => {
+  const location = useLocation();
+
+  useEffect(() => {
+    console.error(
+      "403 Error: User attempted to access a route their role does not allow:",
+      location.pathname
+    );
+  }, [location.pathname]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100">
+      <div className="text-center">
+        <h1 className="text-4xl font-bold mb-4">403</h1>
+        <p className="text-xl text-gray-600 mb-4">You don't have permission to view this page</p>
+        <Link to="/chat" className="text-blue-500 hover:text-blue-700 underline">
+          Return to Chat
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default Forbidden;
@@ -1,12 +1,15 @@
 import { useState } from "react";
-import { useNavigate, Link } from "react-router-dom";
+import { useNavigate, useSearchParams, Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { MessageSquare, Lock, Mail } from "lucide-react";
-import { authService } from "@/lib/auth";
+import { useSession } from "@/hooks/use-session";
+import { getSafeReturnTo } from "@/lib/permissions";
+import { apiClient } from "@/lib/api-client";
+import { ApiError, NETWORK_ERROR_STATUS, getErrorMessage } from "@/lib/api";
 
 const Login = () => {
   const [email, setEmail] = useState("");
@@ -14,43 +17,29 @@ const Login = () => {
   const [isLoading, setIsLoading] = useState(false);
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { login } = useSession();
+  const [searchParams] = useSearchParams();
+  const returnTo = getSafeReturnTo(searchParams.get("returnTo"));
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
 
     try {
-      // TODO: Replace with your actual backend API endpoint
-      const response = await fetch("YOUR_BACKEND_API/login", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ email, password }),
-      });
+      const data = await apiClient.auth.login({ email, password });
+      login(data.token, { username: email, ...data.user }, data.refreshToken);
 
-      const data = await response.json();
+      toast({
+        title: "Login successful!",
+        description: "Welcome back!",
+      });
 
-      if (response.ok && data.token) {
-        authService.setToken(data.token);
-        
-        toast({
-          title: "Login successful!",
-          description: "Welcome back!",
-        });
-        
-        navigate("/chat");
-      } else {
-        toast({
-          title: "Login failed",
-          description: data.message || "Invalid credentials",
-          variant: "destructive",
-        });
-      }
+      navigate(returnTo ?? "/chat", { replace: true });
     } catch (error) {
+      const isConnectionError = error instanceof ApiError && error.status === NETWORK_ERROR_STATUS;
       toast({
-        title: "Error",
-        description: "Failed to connect to server",
+        title: isConnectionError ? "Error" : "Login failed",
+        description: getErrorMessage(error, "Invalid credentials"),
         variant: "destructive",
       });
     } finally {
@@ -122,7 +111,7 @@ const Login = () => {
             <div className="mt-6 text-center">
               <p className="text-sm text-muted-foreground">
                 Don't have an account?{" "}
-                <Link to="/signup" className="text-primary hover:underline font-medium">
+                <Link to={returnTo ? `/signup?returnTo=${encodeURIComponent(returnTo)}` : "/signup"} className="text-primary hover:underline font-medium">
                   Sign up
                 </Link>
               </p>
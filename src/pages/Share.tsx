@@ -0,0 +1,116 @@
+import { Link, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import AttachmentList from "@/components/chat/AttachmentList";
+import MarkdownMessage from "@/components/chat/MarkdownMessage";
+import { attachmentSchema, getErrorMessage } from "@/lib/api";
+import { getShareService, ShareUnavailableError } from "@/lib/shares";
+import type { Attachment } from "@/types/chat";
+import { Bot, Link2Off, MessageSquare, User } from "lucide-react";
+
+// The page is public and the snapshot isn't necessarily checked where it's stored, so
+// attachments that don't pass the schema (e.g. data that isn't a safe URL) are left out.
+const getSafeAttachments = (attachments: Attachment[] = []) =>
+  attachments.filter((attachment) => attachmentSchema.safeParse(attachment).success);
+
+// Public, read-only view of a shared chat: no sidebar, no composer, no sign-in.
+const Share = () => {
+  const { id = "" } = useParams();
+  const { data: share, error, isLoading } = useQuery({
+    queryKey: ["share", id],
+    queryFn: () => getShareService().get(id),
+    retry: false,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background text-muted-foreground">
+        Loading conversation...
+      </div>
+    );
+  }
+
+  if (!share) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background text-foreground p-4">
+        <div className="text-center space-y-3">
+          <Link2Off className="h-10 w-10 mx-auto text-muted-foreground" />
+          <h1 className="text-xl font-semibold">
+            {error instanceof ShareUnavailableError && error.reason === "expired" ? "Link expired" : "Link unavailable"}
+          </h1>
+          <p className="text-muted-foreground">{getErrorMessage(error, "This conversation couldn't be loaded")}</p>
+          <Button variant="outline" asChild>
+            <Link to="/">Go to ChatBot AI</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <div className="p-4 border-b bg-card">
+        <div className="max-w-4xl mx-auto flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <h1 className="text-lg font-semibold truncate">{share.title}</h1>
+            <p className="text-xs text-muted-foreground">
+              {share.owner ? `Shared by ${share.owner}` : "Shared from ChatBot AI"} · {share.createdAt.toLocaleDateString()}
+            </p>
+          </div>
+          <Badge variant="secondary" className="flex-shrink-0">Read-only</Badge>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto p-4">
+        {share.messages.map((message) => {
+          const attachments = getSafeAttachments(message.attachments);
+          return (
+            <div key={message.id} className={`flex ${message.isBot ? "justify-start" : "justify-end"} mb-6`}>
+              <div className={`flex items-start space-x-3 max-w-[85%] ${message.isBot ? "" : "flex-row-reverse space-x-reverse"}`}>
+                <div className={`flex-shrink-0 w-10 h-10 rounded-full flex items-center justify-center shadow-sm ${
+                  message.isBot ? "bg-muted border border-border" : "bg-primary"
+                }`}>
+                  {message.isBot ? (
+                    <Bot className="h-5 w-5 text-muted-foreground" />
+                  ) : (
+                    <User className="h-5 w-5 text-primary-foreground" />
+                  )}
+                </div>
+                <div className={`min-w-0 rounded-xl px-4 py-3 shadow-sm ${
+                  message.isBot ? "bg-muted border border-border text-foreground" : "bg-primary text-primary-foreground"
+                }`}>
+                  {attachments.length > 0 && (
+                    <div className={message.content ? "mb-2" : ""}>
+                      <AttachmentList attachments={attachments} />
+                    </div>
+                  )}
+                  {message.isBot ? (
+                    <MarkdownMessage content={message.content} />
+                  ) : (
+                    message.content && <p className="text-sm leading-relaxed whitespace-pre-wrap">{message.content}</p>
+                  )}
+                  {message.interrupted && (
+                    <p className="text-xs text-muted-foreground italic mt-2">Response interrupted</p>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+
+        <div className="border-t border-border pt-4 mt-8 flex items-center justify-between text-xs text-muted-foreground">
+          <span>{share.expiresAt ? `This link expires ${share.expiresAt.toLocaleString()}` : "Snapshot of a ChatBot AI conversation"}</span>
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/">
+              <MessageSquare className="h-4 w-4 mr-2" />
+              Start your own chat
+            </Link>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Share;
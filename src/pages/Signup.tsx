@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useNavigate, Link } from "react-router-dom";
+import { useNavigate, useSearchParams, Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -7,7 +7,10 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { MessageSquare, Lock, Mail } from "lucide-react";
-import { authService } from "@/lib/auth";
+import { useSession } from "@/hooks/use-session";
+import { getSafeReturnTo } from "@/lib/permissions";
+import { apiClient } from "@/lib/api-client";
+import { ApiError, NETWORK_ERROR_STATUS, getErrorMessage } from "@/lib/api";
 
 const Signup = () => {
   const [email, setEmail] = useState("");
@@ -16,6 +19,9 @@ const Signup = () => {
   const [isLoading, setIsLoading] = useState(false);
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { login } = useSession();
+  const [searchParams] = useSearchParams();
+  const returnTo = getSafeReturnTo(searchParams.get("returnTo"));
 
   const handleSignup = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -32,37 +38,20 @@ const Signup = () => {
     setIsLoading(true);
 
     try {
-      // TODO: Replace with your actual backend API endpoint
-      const response = await fetch("YOUR_BACKEND_API/signup", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ email, password, role }),
-      });
+      const data = await apiClient.auth.signup({ email, password, role });
+      login(data.token, { username: email, role, ...data.user }, data.refreshToken);
 
-      const data = await response.json();
+      toast({
+        title: "Signup successful!",
+        description: "Welcome to ChatBot AI",
+      });
 
-      if (response.ok && data.token) {
-        authService.setToken(data.token);
-        
-        toast({
-          title: "Signup successful!",
-          description: "Welcome to ChatBot AI",
-        });
-        
-        navigate("/chat");
-      } else {
-        toast({
-          title: "Signup failed",
-          description: data.message || "Please try again",
-          variant: "destructive",
-        });
-      }
+      navigate(returnTo ?? "/chat", { replace: true });
     } catch (error) {
+      const isConnectionError = error instanceof ApiError && error.status === NETWORK_ERROR_STATUS;
       toast({
-        title: "Error",
-        description: "Failed to connect to server",
+        title: isConnectionError ? "Error" : "Signup failed",
+        description: getErrorMessage(error, "Please try again"),
         variant: "destructive",
       });
     } finally {
@@ -147,7 +136,7 @@ const Signup = () => {
             <div className="mt-6 text-center">
               <p className="text-sm text-muted-foreground">
                 Already have an account?{" "}
-                <Link to="/login" className="text-primary hover:underline font-medium">
+                <Link to={returnTo ? `/login?returnTo=${encodeURIComponent(returnTo)}` : "/login"} className="text-primary hover:underline font-medium">
                   Sign in
                 </Link>
               </p>
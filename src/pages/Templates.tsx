@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import TemplateEditorDialog from "@/components/templates/TemplateEditorDialog";
+import { useToast } from "@/hooks/use-toast";
+import { useSession } from "@/hooks/use-session";
+import { useTemplates } from "@/hooks/use-templates";
+import { getErrorMessage } from "@/lib/api";
+import { canManageTemplates, getTemplateVariables, type PromptTemplate } from "@/lib/templates";
+import { ArrowLeft, FileText, Pencil, Plus, Search, Trash2 } from "lucide-react";
+
+const newTemplate = (author: string): PromptTemplate => ({
+  id: `template-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+  name: "",
+  body: "",
+  tags: [],
+  author,
+  published: false,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const Templates = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { user } = useSession();
+  const { templates, isLoading, saveTemplate, removeTemplate } = useTemplates(user);
+  const [query, setQuery] = useState("");
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [editing, setEditing] = useState<PromptTemplate | null>(null);
+  const canManage = canManageTemplates(user);
+
+  const tags = [...new Set(templates.flatMap((template) => template.tags))].sort();
+  const search = query.trim().toLowerCase();
+  const visibleTemplates = templates.filter(
+    (template) =>
+      (!activeTag || template.tags.includes(activeTag)) &&
+      (!search || `${template.name} ${template.description ?? ""} ${template.body}`.toLowerCase().includes(search))
+  );
+
+  const handleSave = async (template: PromptTemplate) => {
+    try {
+      await saveTemplate(template);
+      toast({ title: template.published ? "Template published" : "Template saved" });
+      return true;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to save the template"),
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const handleDelete = async (template: PromptTemplate) => {
+    try {
+      await removeTemplate(template.id);
+      toast({ title: "Template deleted", description: template.name });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to delete the template"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <div className="p-4 border-b bg-card flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/chat">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to chat
+            </Link>
+          </Button>
+          <h1 className="text-lg font-semibold text-foreground flex items-center">
+            <FileText className="h-5 w-5 mr-2 text-primary" />
+            Prompt templates
+          </h1>
+        </div>
+        {canManage && (
+          <Button size="sm" onClick={() => setEditing(newTemplate(user.username))}>
+            <Plus className="h-4 w-4 mr-2" />
+            New template
+          </Button>
+        )}
+      </div>
+
+      <div className="max-w-6xl mx-auto p-4 space-y-4">
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+          <div className="relative sm:w-72">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search templates..."
+              className="pl-9"
+            />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {tags.map((tag) => (
+              <Badge
+                key={tag}
+                variant={activeTag === tag ? "default" : "outline"}
+                className="cursor-pointer"
+                onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+              >
+                {tag}
+              </Badge>
+            ))}
+          </div>
+        </div>
+
+        {visibleTemplates.length === 0 && (
+          <p className="text-center text-muted-foreground py-16">
+            {isLoading
+              ? "Loading templates..."
+              : templates.length === 0
+                ? canManage
+                  ? "No templates yet. Create one and publish it for your students."
+                  : "No templates have been published yet."
+                : "No templates match your search."}
+          </p>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {visibleTemplates.map((template) => {
+            const isOwn = template.author === user.username;
+            const variables = getTemplateVariables(template.body);
+            return (
+              <Card key={template.id} className="flex flex-col">
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-2">
+                    <CardTitle className="text-base">{template.name}</CardTitle>
+                    {isOwn && (
+                      <Badge variant={template.published ? "default" : "secondary"}>
+                        {template.published ? "Published" : "Draft"}
+                      </Badge>
+                    )}
+                  </div>
+                  <CardDescription>
+                    {template.description || `By ${template.author}`}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="flex-1 space-y-3">
+                  <p className="text-sm text-muted-foreground whitespace-pre-wrap line-clamp-4">{template.body}</p>
+                  {variables.length > 0 && (
+                    <p className="text-xs text-muted-foreground">Fill in: {variables.join(", ")}</p>
+                  )}
+                  <div className="flex flex-wrap gap-1">
+                    {template.tags.map((tag) => (
+                      <Badge key={tag} variant="outline" className="text-xs font-normal">{tag}</Badge>
+                    ))}
+                  </div>
+                </CardContent>
+                <CardFooter className="gap-2">
+                  <Button size="sm" onClick={() => navigate("/chat", { state: { templateId: template.id } })}>
+                    Use
+                  </Button>
+                  {isOwn && canManage && (
+                    <>
+                      <Button variant="outline" size="sm" onClick={() => setEditing(template)}>
+                        <Pencil className="h-4 w-4 mr-1" />
+                        Edit
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleDelete(template)} aria-label="Delete template">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </CardFooter>
+              </Card>
+            );
+          })}
+        </div>
+      </div>
+
+      <TemplateEditorDialog template={editing} onClose={() => setEditing(null)} onSave={handleSave} />
+    </div>
+  );
+};
+
+export default Templates;
@@ -0,0 +1,75 @@
+export type AttachmentKind = "image" | "pdf" | "text";
+
+export interface Attachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  kind: AttachmentKind;
+  // A data URL for images and PDFs; the file's contents for text files.
+  data: string;
+}
+
+export interface Message {
+  id: string;
+  content: string;
+  isBot: boolean;
+  timestamp: Date;
+  // Set when the user stopped the reply, or the stream failed, before it finished.
+  interrupted?: boolean;
+  // The message this one answers or follows; null for the first message. Several messages
+  // sharing a parent are alternative branches. Missing on messages saved before branching,
+  // which follow the message before them.
+  parentId?: string | null;
+  attachments?: Attachment[];
+}
+
+// Per-chat options sent to the chat backend with every request.
+export interface ChatSettings {
+  systemPrompt?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface ChatHistory {
+  id: string;
+  title: string;
+  messages: Message[];
+  createdAt: Date;
+  // Last local or remote change; decides which side wins when syncing.
+  updatedAt: Date;
+  // Last message of the branch on screen; defaults to the newest message.
+  currentLeafId?: string;
+  settings?: ChatSettings;
+  // Set once the user renames the chat, so new messages no longer retitle it.
+  titleLocked?: boolean;
+  pinned?: boolean;
+  archived?: boolean;
+  // The space the chat belongs to; personal chats have none.
+  spaceId?: string;
+  // A folder of the chat's space, or of the user's own folders for personal chats; unfiled
+  // when missing or when the folder is gone.
+  folderId?: string;
+  // The user's tags on the chat; ids of tags that were deleted are ignored.
+  tagIds?: string[];
+  // How many stored messages come before `messages[0]` but aren't loaded yet. Long chats kept in
+  // IndexedDB are loaded newest page first; missing or 0 means `messages` is complete.
+  olderMessageCount?: number;
+}
+
+export type SpaceRole = "owner" | "member";
+
+export interface SpaceMembership {
+  spaceId: string;
+  role: SpaceRole;
+}
+
+export interface UserData {
+  username: string;
+  role: string;
+  // IANA zone the daily quota resets in; defaults to the browser's.
+  timeZone?: string;
+  // Spaces (e.g. courses) the user owns or belongs to.
+  memberships?: SpaceMembership[];
+}